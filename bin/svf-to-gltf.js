@@ -16,8 +16,11 @@ if (APS_ACCESS_TOKEN) {
 
 async function convertRemote(urn, guid, outputFolder, options) {
     console.log(`Converting urn ${urn}, guid ${guid}`);
-    const reader = await SvfReader.FromDerivativeService(urn, guid, authenticationProvider);
+    const reader = await SvfReader.FromDerivativeService(urn, guid, authenticationProvider, APS_REGION);
     const scene = await reader.read({ log: console.log });
+    if (options.properties.length > 0 || options.hierarchy || options.groupBy) {
+        options = { ...options, propertyDb: await reader.getPropertyDb() };
+    }
     const writer = new GltfWriter(options);
     await writer.write(scene, path.join(outputFolder, guid));
 }
@@ -26,10 +29,24 @@ async function convertLocal(svfPath, outputFolder, options) {
     console.log(`Converting local file ${svfPath}`);
     const reader = await SvfReader.FromFileSystem(svfPath);
     const scene = await reader.read({ log: console.log });
+    if (options.properties.length > 0 || options.hierarchy || options.groupBy) {
+        options = { ...options, propertyDb: await reader.getPropertyDb() };
+    }
     const writer = new GltfWriter(options);
     await writer.write(scene, path.join(outputFolder));
 }
 
+// Parse property filter in the form of <category>/<name>, where either part can be a wildcard
+function parsePropertyFilter(str) {
+    const separator = str.indexOf('/');
+    const category = separator === -1 ? '*' : str.substring(0, separator);
+    const name = separator === -1 ? str : str.substring(separator + 1);
+    return {
+        category: category === '*' ? undefined : category,
+        name: name === '*' ? undefined : name
+    };
+}
+
 // Parse command line arguments
 const args = parseArgs({
     options: {
@@ -72,6 +89,64 @@ const args = parseArgs({
             type: 'boolean',
             default: false,
             description: 'Move the model to the origin.',
+        },
+        'binary': {
+            type: 'boolean',
+            default: false,
+            description: 'Output a single binary glTF (GLB) file.'
+        },
+        'draco': {
+            type: 'boolean',
+            default: false,
+            description: 'Compress mesh geometry using Draco.'
+        },
+        'quantize': {
+            type: 'boolean',
+            default: false,
+            description: 'Quantize vertex attributes (KHR_mesh_quantization).'
+        },
+        'meshopt': {
+            type: 'boolean',
+            default: false,
+            description: 'Compress vertex and index buffers using meshoptimizer (EXT_meshopt_compression).'
+        },
+        'instancing': {
+            type: 'boolean',
+            default: false,
+            description: 'Output fragments with the same geometry and material as instances (EXT_mesh_gpu_instancing).'
+        },
+        'property': {
+            type: 'string',
+            multiple: true,
+            default: [],
+            description: 'Object property to output (EXT_structural_metadata), specified as <category>/<name> where either part can be *.'
+        },
+        'hierarchy': {
+            type: 'boolean',
+            default: false,
+            description: 'Reconstruct the logical hierarchy of objects.'
+        },
+        'merge-by-material': {
+            type: 'boolean',
+            default: false,
+            description: 'Merge mesh geometry into a single mesh per material (with dbIDs stored in the _FEATURE_ID_0 attribute).'
+        },
+        'material-extensions': {
+            type: 'boolean',
+            default: false,
+            description: 'Output additional material properties (KHR_materials_transmission, KHR_materials_ior, KHR_materials_specular, KHR_materials_emissive_strength, KHR_materials_unlit).'
+        },
+        'max-texture-size': {
+            type: 'string',
+            description: 'Downscale textures so that their width and height do not exceed given number of pixels.'
+        },
+        'texture-budget': {
+            type: 'string',
+            description: 'Downscale textures so that their total size (in megabytes when decoded into RGBA pixels) fits the budget.'
+        },
+        'group-by': {
+            type: 'string',
+            description: 'Output a separate glTF for each value of given object property (e.g., Level).'
         }
     },
     allowPositionals: true
@@ -89,6 +164,18 @@ const options = {
     ignoreLineGeometry: args.values['ignore-lines'],
     ignorePointGeometry: args.values['ignore-points'],
     center: args.values.center,
+    binary: args.values.binary,
+    draco: args.values.draco,
+    quantize: args.values.quantize,
+    meshopt: args.values.meshopt,
+    instancing: args.values.instancing,
+    properties: args.values.property.map(parsePropertyFilter),
+    hierarchy: args.values.hierarchy,
+    mergeByMaterial: args.values['merge-by-material'],
+    materialExtensions: args.values['material-extensions'],
+    maxTextureSize: args.values['max-texture-size'] ? parseInt(args.values['max-texture-size']) : undefined,
+    textureBudget: args.values['texture-budget'] ? parseFloat(args.values['texture-budget']) * (1 << 20) : undefined,
+    groupBy: args.values['group-by'],
     log: console.log
 };
 try {
@@ -1,17 +1,44 @@
 #!/usr/bin/env node
 
+const fs = require('fs');
 const path = require('path');
 const { parseArgs } = require('node:util');
-const { SVF2Reader, GltfWriter, BasicAuthenticationProvider, TwoLeggedAuthenticationProvider } = require('..');
+const { SVF2Reader, SVF2DiskCache, GltfWriter, BasicAuthenticationProvider, TwoLeggedAuthenticationProvider } = require('..');
 
-async function run(urn, outputDir, options, authenticationProvider) {
-    const reader = await SVF2Reader.FromDerivativeService(urn, authenticationProvider);
+// Read authentication credentials from environment variables
+function initializeAuthenticationProvider() {
+    const { APS_CLIENT_ID, APS_CLIENT_SECRET, APS_ACCESS_TOKEN } = process.env;
+    if (APS_ACCESS_TOKEN) {
+        return new BasicAuthenticationProvider(APS_ACCESS_TOKEN);
+    } else if (APS_CLIENT_ID && APS_CLIENT_SECRET) {
+        return new TwoLeggedAuthenticationProvider(APS_CLIENT_ID, APS_CLIENT_SECRET);
+    } else {
+        console.error('Missing authentication credentials. Set APS_ACCESS_TOKEN or APS_CLIENT_ID and APS_CLIENT_SECRET.');
+        process.exit(1);
+    }
+}
+
+async function run(input, outputDir, options) {
+    const cache = options.cache ? new SVF2DiskCache(options.cache, options['cache-size'] ? parseFloat(options['cache-size']) * (1 << 20) : 0) : null;
+    // Models downloaded using SVF2Downloader can be converted without accessing APS
+    const reader = fs.existsSync(input) && fs.statSync(input).isDirectory()
+        ? await SVF2Reader.FromFileSystem(input)
+        : await SVF2Reader.FromDerivativeService(input, initializeAuthenticationProvider(), process.env.APS_REGION, { cache });
     const views = await reader.listViews();
     for (const view of views) {
         const scene = await reader.readView(view);
         const writer = new GltfWriter({
             deduplicate: false,
             center: options.center,
+            binary: options.binary,
+            draco: options.draco,
+            quantize: options.quantize,
+            meshopt: options.meshopt,
+            instancing: options.instancing,
+            mergeByMaterial: options['merge-by-material'],
+            materialExtensions: options['material-extensions'],
+            maxTextureSize: options['max-texture-size'] ? parseInt(options['max-texture-size']) : undefined,
+            textureBudget: options['texture-budget'] ? parseFloat(options['texture-budget']) * (1 << 20) : undefined,
             ignoreLineGeometry: true,
             ignorePointGeometry: true,
             skipUnusedUvs: true,
@@ -21,18 +48,6 @@ async function run(urn, outputDir, options, authenticationProvider) {
     }
 }
 
-// Read authentication credentials from environment variables
-const { APS_CLIENT_ID, APS_CLIENT_SECRET, APS_ACCESS_TOKEN } = process.env;
-let authenticationProvider = null;
-if (APS_ACCESS_TOKEN) {
-    authenticationProvider = new BasicAuthenticationProvider(APS_ACCESS_TOKEN);
-} else if (APS_CLIENT_ID && APS_CLIENT_SECRET) {
-    authenticationProvider = new TwoLeggedAuthenticationProvider(APS_CLIENT_ID, APS_CLIENT_SECRET);
-} else {
-    console.error('Missing authentication credentials. Set APS_ACCESS_TOKEN or APS_CLIENT_ID and APS_CLIENT_SECRET.');
-    process.exit(1);
-}
-
 // Parse command line arguments
 const args = parseArgs({
     options: {
@@ -40,16 +55,67 @@ const args = parseArgs({
             type: 'boolean',
             default: true,
             description: 'Move the model to the origin.'
+        },
+        binary: {
+            type: 'boolean',
+            default: false,
+            description: 'Output a single binary glTF (GLB) file.'
+        },
+        draco: {
+            type: 'boolean',
+            default: false,
+            description: 'Compress mesh geometry using Draco.'
+        },
+        quantize: {
+            type: 'boolean',
+            default: false,
+            description: 'Quantize vertex attributes (KHR_mesh_quantization).'
+        },
+        meshopt: {
+            type: 'boolean',
+            default: false,
+            description: 'Compress vertex and index buffers using meshoptimizer (EXT_meshopt_compression).'
+        },
+        instancing: {
+            type: 'boolean',
+            default: false,
+            description: 'Output fragments with the same geometry and material as instances (EXT_mesh_gpu_instancing).'
+        },
+        'merge-by-material': {
+            type: 'boolean',
+            default: false,
+            description: 'Merge mesh geometry into a single mesh per material (with dbIDs stored in the _FEATURE_ID_0 attribute).'
+        },
+        'material-extensions': {
+            type: 'boolean',
+            default: false,
+            description: 'Output additional material properties (KHR_materials_transmission, KHR_materials_ior, KHR_materials_specular, KHR_materials_emissive_strength, KHR_materials_unlit).'
+        },
+        'max-texture-size': {
+            type: 'string',
+            description: 'Downscale textures so that their width and height do not exceed given number of pixels.'
+        },
+        'texture-budget': {
+            type: 'string',
+            description: 'Downscale textures so that their total size (in megabytes when decoded into RGBA pixels) fits the budget.'
+        },
+        cache: {
+            type: 'string',
+            description: 'Cache geometries and materials in given folder, and reuse them in subsequent conversions.'
+        },
+        'cache-size': {
+            type: 'string',
+            description: 'Max size of the cache (in megabytes), evicting the least recently used geometries and materials.'
         }
     },
     allowPositionals: true
 });
-const [urn, outputDir] = args.positionals;
-if (!urn || !outputDir) {
-    console.error('Usage: svf2-to-gltf.js <urn> <outputDir> [--center]');
+const [input, outputDir] = args.positionals;
+if (!input || !outputDir) {
+    console.error('Usage: svf2-to-gltf.js <urn or path to downloaded SVF2 folder> <outputDir> [--center] [--binary] [--draco] [--quantize] [--meshopt] [--instancing] [--merge-by-material] [--material-extensions] [--max-texture-size <pixels>] [--texture-budget <megabytes>] [--cache <folder>] [--cache-size <megabytes>]');
     process.exit(1);
 }
 
-run(urn, outputDir, args.values, authenticationProvider)
+run(input, outputDir, args.values)
     .then(() => console.log('Done!'))
     .catch(err => { console.error(err.message); process.exit(1); });
\ No newline at end of file
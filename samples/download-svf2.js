@@ -16,6 +16,8 @@
  * Alternatively, you can set the following environment variable:
  *
  * - `APS_ACCESS_TOKEN`: existing access token (with "viewables:read" scope).
+ *
+ * Optionally, set the `APS_REGION` environment variable to one of "US", "EMEA", or "AUS".
  */
 
 const { SVF2Downloader } = require('..');
@@ -28,7 +30,7 @@ if (!urn || !outputDir) {
 }
 
 const authenticationProvider = initializeAuthenticationProvider();
-const downloader = new SVF2Downloader(authenticationProvider);
+const downloader = new SVF2Downloader(authenticationProvider, process.env.APS_REGION);
 downloader.download(urn, outputDir)
     .then(() => console.log('Done!'))
     .catch(err => {
@@ -16,6 +16,8 @@
  * Alternatively, you can set the following environment variable:
  *
  * - `APS_ACCESS_TOKEN`: existing access token (with "viewables:read" scope).
+ *
+ * Optionally, set the `APS_REGION` environment variable to one of "US", "EMEA", or "AUS".
  */
 
 const path = require('path')
@@ -30,7 +32,7 @@ if (!urn || !outputDir) {
 
 async function run() {
     const authenticationProvider = initializeAuthenticationProvider();
-    const reader = await SVF2Reader.FromDerivativeService(urn, authenticationProvider);
+    const reader = await SVF2Reader.FromDerivativeService(urn, authenticationProvider, process.env.APS_REGION);
     const views = await reader.listViews();
     for (const view of views) {
         const scene = await reader.readView(view);
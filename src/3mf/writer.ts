@@ -0,0 +1,260 @@
+import * as path from 'path';
+import * as fse from 'fs-extra';
+import Zip from 'adm-zip';
+import * as IMF from '../common/intermediate-format';
+import { PropDbReader } from '../common/propdb-reader';
+import { Matrix4x4, computeDeterminant, getTransformMatrix, multiplyMatrices } from '../common/transforms';
+
+export interface IWriterOptions {
+    propertyDb?: PropDbReader | null; /** Property database to read object names from (objects are named after their dbIDs otherwise). */
+    center?: boolean; /** Move the model to origin. */
+    log?: (msg: string) => void; /** Optional logging function. */
+    filter?: (dbid: number, fragid: number) => boolean;
+}
+
+const ContentTypes = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const Relationships = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+const BaseMaterialsID = 1;
+
+function formatFloat(value: number): string {
+    const rounded = parseFloat(value.toPrecision(7));
+    return rounded === 0 ? '0' : rounded.toString();
+}
+
+function escapeXml(str: string): string {
+    return str.replace(/[<>&"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+function formatColor(r: number, g: number, b: number, a: number): string {
+    const hex = (value: number) => Math.round(Math.min(Math.max(value, 0.0), 1.0) * 255).toString(16).toUpperCase().padStart(2, '0');
+    return `#${hex(r)}${hex(g)}${hex(b)}${hex(a)}`;
+}
+
+/**
+ * Finds the 3MF unit corresponding to given distance unit.
+ * @param {string} distanceUnit Distance unit as specified in the "distance unit" scene metadata (e.g., "ft", "mm", or "meter").
+ * @returns {string} 3MF unit ("meter" for unknown units).
+ */
+function get3mfUnit(distanceUnit: string): string {
+    switch (distanceUnit) {
+        case 'centimeter':
+        case 'cm':
+            return 'centimeter';
+        case 'millimeter':
+        case 'mm':
+            return 'millimeter';
+        case 'foot':
+        case 'ft':
+            return 'foot';
+        case 'inch':
+        case 'in':
+            return 'inch';
+        default:    // "meter" / "m"
+            return 'meter';
+    }
+}
+
+/**
+ * Utility class for serializing parsed 3D content to local file system as 3MF.
+ *
+ * Each object (dbID) is output as a separate 3MF object with its name and materials,
+ * with fragment transforms baked into the vertex data, and with coordinates in the original units of the scene.
+ * Only triangle meshes are output (line and point geometry is ignored).
+ */
+export class Writer {
+    protected options: Required<IWriterOptions>;
+
+    protected materials = new Map<IMF.MaterialID, number>(); // Indices of 3MF base materials, indexed by IMF material IDs
+
+    /**
+     * Initializes the writer.
+     * @param {IWriterOptions} [options={}] Additional writer options.
+     */
+    constructor(options: IWriterOptions = {}) {
+        this.options = {
+            propertyDb: options.propertyDb ?? null,
+            center: !!options.center,
+            log: (options && options.log) || function (msg: string) {},
+            filter: options && options.filter || ((dbid: number, fragid: number) => true)
+        };
+    }
+
+    /**
+     * Outputs scene into 3MF (as _output.3mf_).
+     * @async
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {string} outputDir Path to output folder.
+     */
+    async write(imf: IMF.IScene, outputDir: string) {
+        this.materials.clear();
+        fse.ensureDirSync(outputDir);
+        this.options.log(`Writing scene nodes...`);
+        const model = this.createModel(imf);
+        const zip = new Zip();
+        zip.addFile('[Content_Types].xml', Buffer.from(ContentTypes, 'utf8'));
+        zip.addFile('_rels/.rels', Buffer.from(Relationships, 'utf8'));
+        zip.addFile('3D/3dmodel.model', Buffer.from(model, 'utf8'));
+        await fse.writeFile(path.join(outputDir, 'output.3mf'), zip.toBuffer());
+        this.options.log(`Closing 3mf output: done`);
+    }
+
+    protected createModel(imf: IMF.IScene): string {
+        const metadata = imf.getMetadata();
+        const unit = metadata['distance unit'] && metadata['distance unit'].value ? get3mfUnit(metadata['distance unit'].value) : 'meter';
+        const worldMatrix = this.computeWorldMatrix(imf);
+
+        const objectLines: string[] = [];
+        const itemLines: string[] = [];
+        let nextObjectID = BaseMaterialsID + 1;
+        for (const [dbid, fragmentIDs] of this.collectObjects(imf)) {
+            const lines = this.createObject(nextObjectID, dbid, fragmentIDs, worldMatrix, imf);
+            if (lines.length > 0) {
+                objectLines.push(...lines);
+                itemLines.push(`    <item objectid="${nextObjectID}"/>`);
+                nextObjectID++;
+            }
+        }
+
+        this.options.log(`Writing materials...`);
+        const materialLines: string[] = [];
+        for (const [materialID] of this.materials) {
+            const mat = imf.getMaterial(materialID) as IMF.Material | null;
+            const color = mat
+                ? formatColor(mat.diffuse.x, mat.diffuse.y, mat.diffuse.z, mat.opacity !== undefined ? mat.opacity : 1.0)
+                : formatColor(0.25, 0.25, 0.25, 1.0);
+            materialLines.push(`      <base name="material_${materialID}" displaycolor="${color}"/>`);
+        }
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<model unit="${unit}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">`,
+            '  <metadata name="Application">svf-utils</metadata>',
+            '  <resources>',
+            ...(materialLines.length > 0 ? [`    <basematerials id="${BaseMaterialsID}">`, ...materialLines, '    </basematerials>'] : []),
+            ...objectLines,
+            '  </resources>',
+            '  <build>',
+            ...itemLines,
+            '  </build>',
+            '</model>',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Collects IDs of fragments that should be output, grouped by their dbIDs.
+     */
+    protected collectObjects(imf: IMF.IScene): Map<number, number[]> {
+        const { filter } = this.options;
+        const objects = new Map<number, number[]>();
+        for (let i = 0, len = imf.getNodeCount(); i < len; i++) {
+            const fragment = imf.getNode(i);
+            // Currently we only support flat lists of objects, no hierarchies
+            if (fragment.kind !== IMF.NodeKind.Object) {
+                continue;
+            }
+            if (!filter(fragment.dbid, i)) {
+                continue;
+            }
+            const fragmentIDs = objects.get(fragment.dbid);
+            if (fragmentIDs) {
+                fragmentIDs.push(i);
+            } else {
+                objects.set(fragment.dbid, [i]);
+            }
+        }
+        return objects;
+    }
+
+    protected computeWorldMatrix(imf: IMF.IScene): Matrix4x4 {
+        const metadata = imf.getMetadata();
+        if (metadata['world bounding box'] && this.options.center) {
+            const boundsMin = metadata['world bounding box'].minXYZ;
+            const boundsMax = metadata['world bounding box'].maxXYZ;
+            if (boundsMin && boundsMax) {
+                return [
+                    1, 0, 0, 0,
+                    0, 1, 0, 0,
+                    0, 0, 1, 0,
+                    -0.5 * (boundsMin[0] + boundsMax[0]), -0.5 * (boundsMin[1] + boundsMax[1]), -0.5 * (boundsMin[2] + boundsMax[2]), 1
+                ];
+            }
+        }
+        return getTransformMatrix();
+    }
+
+    /**
+     * Outputs all mesh fragments of an object as a single 3MF mesh object.
+     * @returns {string[]} Lines of the object definition, or an empty array if the object has no triangles.
+     */
+    protected createObject(objectID: number, dbid: number, fragmentIDs: number[], worldMatrix: Matrix4x4, imf: IMF.IScene): string[] {
+        const vertexLines: string[] = [];
+        const triangleLines: string[] = [];
+        let objectMaterial: number | undefined = undefined;
+        for (const fragmentID of fragmentIDs) {
+            const fragment = imf.getNode(fragmentID) as IMF.IObjectNode;
+            const geometry = imf.getGeometry(fragment.geometry);
+            if (geometry.kind !== IMF.GeometryKind.Mesh) {
+                continue;
+            }
+            const indices = geometry.getIndices();
+            const vertices = geometry.getVertices();
+            if (indices.length === 0) {
+                continue;
+            }
+            let material = this.materials.get(fragment.material);
+            if (material === undefined) {
+                material = this.materials.size;
+                this.materials.set(fragment.material, material);
+            }
+            if (objectMaterial === undefined) {
+                objectMaterial = material;
+            }
+            // Triangles only need to reference their material when it differs from the default material of the object
+            const materialAttributes = material !== objectMaterial ? ` pid="${BaseMaterialsID}" p1="${material}"` : '';
+
+            const m = multiplyMatrices(worldMatrix, getTransformMatrix(fragment.transform));
+            const baseIndex = vertexLines.length;
+            for (let i = 0; i < vertices.length; i += 3) {
+                const x = vertices[i], y = vertices[i + 1], z = vertices[i + 2];
+                vertexLines.push(`          <vertex x="${formatFloat(m[0] * x + m[4] * y + m[8] * z + m[12])}" y="${formatFloat(m[1] * x + m[5] * y + m[9] * z + m[13])}" z="${formatFloat(m[2] * x + m[6] * y + m[10] * z + m[14])}"/>`);
+            }
+            // Mirroring transforms flip the orientation of triangles, so their winding needs to be reversed
+            const mirrored = computeDeterminant(m) < 0;
+            for (let i = 0; i < indices.length; i += 3) {
+                const v1 = baseIndex + indices[i];
+                const v2 = baseIndex + indices[mirrored ? i + 2 : i + 1];
+                const v3 = baseIndex + indices[mirrored ? i + 1 : i + 2];
+                triangleLines.push(`          <triangle v1="${v1}" v2="${v2}" v3="${v3}"${materialAttributes}/>`);
+            }
+        }
+        if (triangleLines.length === 0) {
+            return [];
+        }
+
+        const name = this.options.propertyDb?.getName(dbid) ?? `dbid_${dbid}`;
+        return [
+            `    <object id="${objectID}" type="model" name="${escapeXml(name)}" partnumber="${dbid}" pid="${BaseMaterialsID}" pindex="${objectMaterial}">`,
+            '      <mesh>',
+            '        <vertices>',
+            ...vertexLines,
+            '        </vertices>',
+            '        <triangles>',
+            ...triangleLines,
+            '        </triangles>',
+            '      </mesh>',
+            '    </object>'
+        ];
+    }
+}
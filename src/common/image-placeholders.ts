@@ -38,4 +38,25 @@ export class ImagePlaceholder {
         }
         return this._gif;
     }
+
+    /**
+     * Finds a placeholder image for given file extension.
+     * @param {string} extension File extension including the dot, for example, ".jpg".
+     * @returns {Buffer | undefined} Placeholder image data, or undefined for unsupported image formats.
+     */
+    public static FromExtension(extension: string): Buffer | undefined {
+        switch (extension.toLowerCase()) {
+            case '.jpg':
+            case '.jpeg':
+                return this.JPG;
+            case '.png':
+                return this.PNG;
+            case '.bmp':
+                return this.BMP;
+            case '.gif':
+                return this.GIF;
+            default:
+                return undefined;
+        }
+    }
 }
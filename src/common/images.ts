@@ -0,0 +1,767 @@
+import * as zlib from 'zlib';
+import { decodeJpeg, isJpeg, readJpegSize } from './jpeg';
+
+/**
+ * Decoded image with 8-bit RGBA pixels, stored row by row starting from the top-left corner.
+ */
+export interface IRawImage {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+const PngSignature = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+let CrcTable: Uint32Array | undefined;
+
+function crc32(buffer: Buffer): number {
+    if (!CrcTable) {
+        CrcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+            }
+            CrcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < buffer.length; i++) {
+        crc = CrcTable[(crc ^ buffer[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) {
+        return a;
+    } else if (pb <= pc) {
+        return b;
+    } else {
+        return c;
+    }
+}
+
+/**
+ * Checks whether given buffer contains a PNG image.
+ */
+export function isPng(buffer: Buffer): boolean {
+    return buffer.length >= PngSignature.length && buffer.subarray(0, PngSignature.length).equals(PngSignature);
+}
+
+/**
+ * Decodes PNG image into 8-bit RGBA pixels.
+ * All bit depths and color types are supported, except for interlaced images.
+ * @param {Buffer} buffer PNG file content.
+ * @returns {IRawImage} Decoded image.
+ * @throws Will throw an error if the buffer is not a valid PNG image, or if it uses unsupported features.
+ */
+export function decodePng(buffer: Buffer): IRawImage {
+    if (!isPng(buffer)) {
+        throw new Error('Not a PNG image.');
+    }
+    let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+    let palette: Buffer | null = null;
+    let transparency: Buffer | null = null;
+    const chunks: Buffer[] = [];
+    let offset = PngSignature.length;
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        const content = buffer.subarray(offset + 8, offset + 8 + length);
+        offset += length + 12;
+        if (type === 'IHDR') {
+            width = content.readUInt32BE(0);
+            height = content.readUInt32BE(4);
+            bitDepth = content[8];
+            colorType = content[9];
+            interlace = content[12];
+        } else if (type === 'PLTE') {
+            palette = content;
+        } else if (type === 'tRNS') {
+            transparency = content;
+        } else if (type === 'IDAT') {
+            chunks.push(content);
+        } else if (type === 'IEND') {
+            break;
+        }
+    }
+    if (interlace !== 0) {
+        throw new Error('Interlaced PNG images are not supported.');
+    }
+
+    let channels: number;
+    switch (colorType) {
+        case 0: channels = 1; break; // Grayscale
+        case 2: channels = 3; break; // RGB
+        case 3: channels = 1; break; // Palette indices
+        case 4: channels = 2; break; // Grayscale with alpha
+        case 6: channels = 4; break; // RGBA
+        default: throw new Error(`Unsupported PNG color type: ${colorType}`);
+    }
+    if (colorType === 3 && !palette) {
+        throw new Error('Missing PNG palette.');
+    }
+
+    // Reverse the per-row filters
+    const scanlines = zlib.inflateSync(Buffer.concat(chunks));
+    const stride = Math.ceil(width * channels * bitDepth / 8);
+    const bpp = Math.max(1, channels * bitDepth / 8);
+    const pixels = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = scanlines[y * (stride + 1)];
+        const src = y * (stride + 1) + 1;
+        const dst = y * stride;
+        for (let x = 0; x < stride; x++) {
+            const a = x >= bpp ? pixels[dst + x - bpp] : 0;
+            const b = y > 0 ? pixels[dst + x - stride] : 0;
+            const c = x >= bpp && y > 0 ? pixels[dst + x - stride - bpp] : 0;
+            let value = scanlines[src + x];
+            switch (filter) {
+                case 0: break;
+                case 1: value += a; break;
+                case 2: value += b; break;
+                case 3: value += (a + b) >> 1; break;
+                case 4: value += paeth(a, b, c); break;
+                default: throw new Error(`Unsupported PNG filter type: ${filter}`);
+            }
+            pixels[dst + x] = value & 0xFF;
+        }
+    }
+
+    // Convert the samples into 8-bit RGBA
+    const sample = (row: number, index: number): number => {
+        switch (bitDepth) {
+            case 8:
+                return pixels[row * stride + index];
+            case 16:
+                return pixels[row * stride + index * 2];
+            default: {
+                const bitOffset = index * bitDepth;
+                const byte = pixels[row * stride + (bitOffset >> 3)];
+                return (byte >> (8 - bitDepth - (bitOffset & 7))) & ((1 << bitDepth) - 1);
+            }
+        }
+    };
+    // Raw sample values (before scaling to 8 bits) are needed for palette lookups and for transparency keys
+    const rawSample = (row: number, index: number): number => bitDepth === 16
+        ? (pixels[row * stride + index * 2] << 8) | pixels[row * stride + index * 2 + 1]
+        : sample(row, index);
+    const scale = bitDepth < 8 ? 255 / ((1 << bitDepth) - 1) : 1;
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            switch (colorType) {
+                case 0: {
+                    const gray = rawSample(y, x);
+                    data[i] = data[i + 1] = data[i + 2] = Math.round(sample(y, x) * scale);
+                    data[i + 3] = transparency && transparency.length >= 2 && gray === transparency.readUInt16BE(0) ? 0 : 255;
+                    break;
+                }
+                case 2: {
+                    data[i] = sample(y, x * 3);
+                    data[i + 1] = sample(y, x * 3 + 1);
+                    data[i + 2] = sample(y, x * 3 + 2);
+                    const keyed = transparency && transparency.length >= 6
+                        && rawSample(y, x * 3) === transparency.readUInt16BE(0)
+                        && rawSample(y, x * 3 + 1) === transparency.readUInt16BE(2)
+                        && rawSample(y, x * 3 + 2) === transparency.readUInt16BE(4);
+                    data[i + 3] = keyed ? 0 : 255;
+                    break;
+                }
+                case 3: {
+                    const index = rawSample(y, x);
+                    data[i] = palette![index * 3];
+                    data[i + 1] = palette![index * 3 + 1];
+                    data[i + 2] = palette![index * 3 + 2];
+                    data[i + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                    break;
+                }
+                case 4:
+                    data[i] = data[i + 1] = data[i + 2] = sample(y, x * 2);
+                    data[i + 3] = sample(y, x * 2 + 1);
+                    break;
+                case 6:
+                    data[i] = sample(y, x * 4);
+                    data[i + 1] = sample(y, x * 4 + 1);
+                    data[i + 2] = sample(y, x * 4 + 2);
+                    data[i + 3] = sample(y, x * 4 + 3);
+                    break;
+            }
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * Encodes 8-bit RGBA pixels into PNG.
+ * @param {IRawImage} image Image to encode.
+ * @returns {Buffer} PNG file content.
+ */
+export function encodePng(image: IRawImage): Buffer {
+    const { width, height, data } = image;
+    const stride = width * 4;
+    const scanlines = Buffer.alloc((stride + 1) * height);
+    const candidate = Buffer.alloc(stride);
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        // Pick the filter producing the smallest sum of absolute differences, a heuristic recommended by the PNG spec
+        let bestSum = Infinity;
+        for (let filter = 0; filter < 5; filter++) {
+            let sum = 0;
+            for (let x = 0; x < stride; x++) {
+                const a = x >= 4 ? data[row + x - 4] : 0;
+                const b = y > 0 ? data[row + x - stride] : 0;
+                const c = x >= 4 && y > 0 ? data[row + x - stride - 4] : 0;
+                let value = data[row + x];
+                switch (filter) {
+                    case 1: value -= a; break;
+                    case 2: value -= b; break;
+                    case 3: value -= (a + b) >> 1; break;
+                    case 4: value -= paeth(a, b, c); break;
+                }
+                value &= 0xFF;
+                candidate[x] = value;
+                sum += value < 128 ? value : 256 - value;
+            }
+            if (sum < bestSum) {
+                bestSum = sum;
+                scanlines[y * (stride + 1)] = filter;
+                candidate.copy(scanlines, y * (stride + 1) + 1);
+            }
+        }
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 6; // Color type (RGBA)
+    const chunk = (type: string, content: Buffer): Buffer => {
+        const result = Buffer.alloc(content.length + 12);
+        result.writeUInt32BE(content.length, 0);
+        result.write(type, 4, 'ascii');
+        content.copy(result, 8);
+        result.writeUInt32BE(crc32(result.subarray(4, 8 + content.length)), 8 + content.length);
+        return result;
+    };
+    return Buffer.concat([
+        PngSignature,
+        chunk('IHDR', header),
+        chunk('IDAT', zlib.deflateSync(scanlines)),
+        chunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+/**
+ * Checks whether given buffer contains a BMP image.
+ */
+export function isBmp(buffer: Buffer): boolean {
+    return buffer.length >= 26 && buffer[0] === 0x42 && buffer[1] === 0x4D; // "BM"
+}
+
+/**
+ * Decodes BMP image into 8-bit RGBA pixels.
+ * Supports all the common variants: 1, 4, 8, 16, 24 and 32 bits per pixel, RLE compression, and custom bit fields.
+ * @param {Buffer} buffer BMP file content.
+ * @returns {IRawImage} Decoded image.
+ * @throws Will throw an error if the buffer is not a valid BMP image, or if it uses unsupported features.
+ */
+export function decodeBmp(buffer: Buffer): IRawImage {
+    if (!isBmp(buffer)) {
+        throw new Error('Not a BMP image.');
+    }
+    const dataOffset = buffer.readUInt32LE(10);
+    const headerSize = buffer.readUInt32LE(14);
+    let width: number, height: number, bitCount: number, compression = 0, paletteSize = 0;
+    if (headerSize === 12) { // BITMAPCOREHEADER
+        width = buffer.readUInt16LE(18);
+        height = buffer.readInt16LE(20);
+        bitCount = buffer.readUInt16LE(24);
+    } else {
+        width = buffer.readInt32LE(18);
+        height = buffer.readInt32LE(22);
+        bitCount = buffer.readUInt16LE(28);
+        compression = buffer.readUInt32LE(30);
+        paletteSize = buffer.readUInt32LE(46);
+    }
+    // Positive height means that the rows are stored bottom-up
+    const bottomUp = height > 0;
+    height = Math.abs(height);
+
+    // Color masks are either part of the header (in newer versions), or they follow the header
+    let masks = bitCount === 16 ? [0x7C00, 0x03E0, 0x001F, 0] : [0x00FF0000, 0x0000FF00, 0x000000FF, 0];
+    let paletteOffset = 14 + headerSize;
+    if (compression === 3 || compression === 6) { // BI_BITFIELDS, BI_ALPHABITFIELDS
+        const maskOffset = headerSize >= 52 ? 54 : 14 + headerSize;
+        const maskCount = headerSize >= 56 || compression === 6 ? 4 : 3;
+        masks = [0, 1, 2, 3].map(i => i < maskCount ? buffer.readUInt32LE(maskOffset + i * 4) : 0);
+        if (headerSize < 52) {
+            paletteOffset += maskCount * 4;
+        }
+    } else if (compression !== 0 && compression !== 1 && compression !== 2) {
+        throw new Error(`Unsupported BMP compression: ${compression}`);
+    }
+
+    // Palette entries are stored as BGR triplets (in the oldest version) or BGRX quads
+    const palette: number[][] = [];
+    if (bitCount <= 8) {
+        const entrySize = headerSize === 12 ? 3 : 4;
+        const count = paletteSize || (1 << bitCount);
+        for (let i = 0; i < count && paletteOffset + i * entrySize + 2 < buffer.length; i++) {
+            const offset = paletteOffset + i * entrySize;
+            palette.push([buffer[offset + 2], buffer[offset + 1], buffer[offset]]);
+        }
+    }
+
+    const data = new Uint8Array(width * height * 4);
+    const setPaletteColor = (x: number, row: number, index: number) => {
+        const y = bottomUp ? height - 1 - row : row;
+        if (x < width && y >= 0 && y < height) {
+            const color = palette[index] || [0, 0, 0];
+            const i = (y * width + x) * 4;
+            data[i] = color[0];
+            data[i + 1] = color[1];
+            data[i + 2] = color[2];
+            data[i + 3] = 255;
+        }
+    };
+
+    if (compression === 1 || compression === 2) {
+        // Run-length encoded 8-bit or 4-bit indices; pixels that are skipped remain transparent
+        const rle4 = compression === 2;
+        let offset = dataOffset, x = 0, row = 0;
+        while (offset + 1 < buffer.length && row < height) {
+            const count = buffer[offset++];
+            const value = buffer[offset++];
+            if (count > 0) {
+                for (let i = 0; i < count; i++) {
+                    setPaletteColor(x++, row, rle4 ? (i % 2 === 0 ? value >> 4 : value & 0x0F) : value);
+                }
+            } else if (value === 0) { // End of line
+                x = 0;
+                row++;
+            } else if (value === 1) { // End of bitmap
+                break;
+            } else if (value === 2) { // Delta
+                x += buffer[offset++];
+                row += buffer[offset++];
+            } else { // Absolute mode, padded to 16 bits
+                const byteCount = rle4 ? Math.ceil(value / 2) : value;
+                for (let i = 0; i < value; i++) {
+                    setPaletteColor(x++, row, rle4 ? (i % 2 === 0 ? buffer[offset + (i >> 1)] >> 4 : buffer[offset + (i >> 1)] & 0x0F) : buffer[offset + i]);
+                }
+                offset += byteCount + (byteCount % 2);
+            }
+        }
+        return { width, height, data };
+    }
+
+    // Uncompressed rows are padded to 32 bits
+    const stride = Math.ceil(width * bitCount / 32) * 4;
+    const channel = (value: number, mask: number): number => {
+        if (mask === 0) {
+            return 255;
+        }
+        const shift = Math.clz32(mask & -mask) ^ 31; // Index of the lowest set bit
+        const max = mask >>> shift;
+        return Math.round(((value & mask) >>> shift) * 255 / max);
+    };
+    let hasAlpha = false;
+    for (let row = 0; row < height; row++) {
+        const rowOffset = dataOffset + row * stride;
+        const y = bottomUp ? height - 1 - row : row;
+        for (let x = 0; x < width; x++) {
+            if (bitCount <= 8) {
+                const bitOffset = x * bitCount;
+                const byte = buffer[rowOffset + (bitOffset >> 3)];
+                setPaletteColor(x, row, (byte >> (8 - bitCount - (bitOffset & 7))) & ((1 << bitCount) - 1));
+                continue;
+            }
+            let value: number;
+            switch (bitCount) {
+                case 16: value = buffer.readUInt16LE(rowOffset + x * 2); break;
+                case 24: value = buffer[rowOffset + x * 3] | (buffer[rowOffset + x * 3 + 1] << 8) | (buffer[rowOffset + x * 3 + 2] << 16); break;
+                case 32: value = buffer.readUInt32LE(rowOffset + x * 4); break;
+                default: throw new Error(`Unsupported BMP bit count: ${bitCount}`);
+            }
+            const i = (y * width + x) * 4;
+            data[i] = channel(value, masks[0]);
+            data[i + 1] = channel(value, masks[1]);
+            data[i + 2] = channel(value, masks[2]);
+            data[i + 3] = channel(value, masks[3]);
+            hasAlpha = hasAlpha || (masks[3] !== 0 && data[i + 3] > 0);
+        }
+    }
+    if (masks[3] !== 0 && !hasAlpha) {
+        // Many applications write zeros into the alpha channel, so fully transparent images are treated as opaque
+        for (let i = 3; i < data.length; i += 4) {
+            data[i] = 255;
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * Checks whether given buffer contains a GIF image.
+ */
+export function isGif(buffer: Buffer): boolean {
+    return buffer.length >= 13 && (buffer.toString('ascii', 0, 6) === 'GIF87a' || buffer.toString('ascii', 0, 6) === 'GIF89a');
+}
+
+/**
+ * Decodes GIF image into 8-bit RGBA pixels. Only the first frame of animated images is decoded.
+ * @param {Buffer} buffer GIF file content.
+ * @returns {IRawImage} Decoded image.
+ * @throws Will throw an error if the buffer is not a valid GIF image.
+ */
+export function decodeGif(buffer: Buffer): IRawImage {
+    if (!isGif(buffer)) {
+        throw new Error('Not a GIF image.');
+    }
+    const width = buffer.readUInt16LE(6);
+    const height = buffer.readUInt16LE(8);
+    const flags = buffer[10];
+    let offset = 13;
+    let globalPalette: Buffer | null = null;
+    if (flags & 0x80) {
+        const size = 3 * (1 << ((flags & 0x07) + 1));
+        globalPalette = buffer.subarray(offset, offset + size);
+        offset += size;
+    }
+
+    const skipSubBlocks = () => {
+        while (offset < buffer.length && buffer[offset] !== 0) {
+            offset += buffer[offset] + 1;
+        }
+        offset++;
+    };
+
+    let transparentIndex = -1;
+    const data = new Uint8Array(width * height * 4); // Areas not covered by the first frame remain transparent
+    while (offset < buffer.length) {
+        const blockType = buffer[offset++];
+        if (blockType === 0x21) { // Extension
+            const label = buffer[offset++];
+            if (label === 0xF9 && buffer[offset] >= 4) { // Graphic control extension
+                if (buffer[offset + 1] & 0x01) {
+                    transparentIndex = buffer[offset + 4];
+                }
+            }
+            skipSubBlocks();
+        } else if (blockType === 0x2C) { // Image descriptor
+            const left = buffer.readUInt16LE(offset);
+            const top = buffer.readUInt16LE(offset + 2);
+            const frameWidth = buffer.readUInt16LE(offset + 4);
+            const frameHeight = buffer.readUInt16LE(offset + 6);
+            const frameFlags = buffer[offset + 8];
+            offset += 9;
+            let palette = globalPalette;
+            if (frameFlags & 0x80) {
+                const size = 3 * (1 << ((frameFlags & 0x07) + 1));
+                palette = buffer.subarray(offset, offset + size);
+                offset += size;
+            }
+            if (!palette) {
+                throw new Error('Missing GIF color table.');
+            }
+            const minCodeSize = buffer[offset++];
+            const chunks: Buffer[] = [];
+            while (offset < buffer.length && buffer[offset] !== 0) {
+                chunks.push(buffer.subarray(offset + 1, offset + 1 + buffer[offset]));
+                offset += buffer[offset] + 1;
+            }
+            const indices = decodeGifLzw(Buffer.concat(chunks), minCodeSize, frameWidth * frameHeight);
+
+            // Interlaced images store every 8th row first, then every 8th row starting from the 4th, etc.
+            const rows: number[] = [];
+            if (frameFlags & 0x40) {
+                for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+                    for (let y = start; y < frameHeight; y += step) {
+                        rows.push(y);
+                    }
+                }
+            } else {
+                for (let y = 0; y < frameHeight; y++) {
+                    rows.push(y);
+                }
+            }
+            for (let r = 0; r < rows.length; r++) {
+                const y = top + rows[r];
+                for (let fx = 0; fx < frameWidth; fx++) {
+                    const x = left + fx;
+                    const index = indices[r * frameWidth + fx];
+                    if (x >= width || y >= height || index === transparentIndex || index * 3 + 2 >= palette.length) {
+                        continue;
+                    }
+                    const i = (y * width + x) * 4;
+                    data[i] = palette[index * 3];
+                    data[i + 1] = palette[index * 3 + 1];
+                    data[i + 2] = palette[index * 3 + 2];
+                    data[i + 3] = 255;
+                }
+            }
+            break;
+        } else { // Trailer, or an unknown block
+            break;
+        }
+    }
+    return { width, height, data };
+}
+
+function decodeGifLzw(input: Buffer, minCodeSize: number, pixelCount: number): Uint8Array {
+    const output = new Uint8Array(pixelCount);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    // Each dictionary entry is stored as a reference to its prefix entry, and the last symbol
+    const prefixes = new Int32Array(4096);
+    const suffixes = new Uint8Array(4096);
+    const lengths = new Uint16Array(4096);
+    for (let i = 0; i < clearCode; i++) {
+        prefixes[i] = -1;
+        suffixes[i] = i;
+        lengths[i] = 1;
+    }
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let previous = -1;
+    let bits = 0, bitCount = 0, inputOffset = 0, outputOffset = 0;
+    while (outputOffset < pixelCount) {
+        while (bitCount < codeSize && inputOffset < input.length) {
+            bits |= input[inputOffset++] << bitCount;
+            bitCount += 8;
+        }
+        if (bitCount < codeSize) {
+            break;
+        }
+        const code = bits & ((1 << codeSize) - 1);
+        bits >>>= codeSize;
+        bitCount -= codeSize;
+        if (code === clearCode) {
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+            previous = -1;
+            continue;
+        }
+        if (code === endCode) {
+            break;
+        }
+        // A code that is not yet in the dictionary is the previous entry followed by its own first symbol
+        const entry = code < nextCode ? code : previous;
+        if (entry === -1) {
+            break;
+        }
+        const length = lengths[entry];
+        const start = outputOffset;
+        for (let e = entry, i = length - 1; e !== -1; e = prefixes[e], i--) {
+            if (start + i < pixelCount) {
+                output[start + i] = suffixes[e];
+            }
+        }
+        outputOffset += length;
+        const first = output[start];
+        if (code >= nextCode && outputOffset < pixelCount) {
+            output[outputOffset++] = first;
+        }
+        if (previous !== -1 && nextCode < 4096) {
+            prefixes[nextCode] = previous;
+            suffixes[nextCode] = first;
+            lengths[nextCode] = lengths[previous] + 1;
+            nextCode++;
+            if (nextCode === (1 << codeSize) && codeSize < 12) {
+                codeSize++;
+            }
+        }
+        previous = code;
+    }
+    return output;
+}
+
+/**
+ * Decodes image in any of the supported formats (PNG, JPEG, BMP, or GIF).
+ * @param {Buffer} buffer Image file content.
+ * @returns {IRawImage | null} Decoded image, or null if the image format is not supported.
+ */
+export function decodeImage(buffer: Buffer): IRawImage | null {
+    if (isPng(buffer)) {
+        return decodePng(buffer);
+    } else if (isJpeg(buffer)) {
+        return decodeJpeg(buffer);
+    } else if (isBmp(buffer)) {
+        return decodeBmp(buffer);
+    } else if (isGif(buffer)) {
+        return decodeGif(buffer);
+    }
+    return null;
+}
+
+/**
+ * Reads dimensions of an image in any of the supported formats (PNG, JPEG, BMP, or GIF) without decoding it.
+ * @param {Buffer} buffer Image file content.
+ * @returns {{ width: number, height: number } | null} Image dimensions, or null if the image format is not supported.
+ */
+export function readImageSize(buffer: Buffer): { width: number, height: number } | null {
+    if (isPng(buffer) && buffer.length >= 24) {
+        return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }; // IHDR is always the first chunk
+    } else if (isJpeg(buffer)) {
+        return readJpegSize(buffer);
+    } else if (isBmp(buffer)) {
+        return buffer.readUInt32LE(14) === 12
+            ? { width: buffer.readUInt16LE(18), height: Math.abs(buffer.readInt16LE(20)) }
+            : { width: Math.abs(buffer.readInt32LE(18)), height: Math.abs(buffer.readInt32LE(22)) };
+    } else if (isGif(buffer)) {
+        return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+    return null;
+}
+
+/**
+ * Resizes image by averaging the pixels covered by each of the output pixels (suitable for downscaling).
+ * Colors are weighted by their alpha so that fully transparent pixels do not bleed into their neighbors.
+ * @param {IRawImage} image Source image.
+ * @param {number} width Width of the output image.
+ * @param {number} height Height of the output image.
+ * @returns {IRawImage} Resized image.
+ */
+export function resizeImage(image: IRawImage, width: number, height: number): IRawImage {
+    // Lists of source pixels (and their weights) contributing to each output pixel along one axis
+    const computeWeights = (srcSize: number, dstSize: number) => {
+        const weights: { index: number, weight: number }[][] = [];
+        const ratio = srcSize / dstSize;
+        for (let i = 0; i < dstSize; i++) {
+            const start = i * ratio, end = Math.min((i + 1) * ratio, srcSize);
+            const contributions = [];
+            for (let j = Math.floor(start); j < end; j++) {
+                const weight = Math.min(end, j + 1) - Math.max(start, j);
+                if (weight > 0) {
+                    contributions.push({ index: j, weight: weight / (end - start) });
+                }
+            }
+            weights.push(contributions);
+        }
+        return weights;
+    };
+    const columnWeights = computeWeights(image.width, width);
+    const rowWeights = computeWeights(image.height, height);
+
+    // Resample the rows first, with colors premultiplied by alpha
+    const temp = new Float32Array(width * image.height * 4);
+    for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (const { index, weight } of columnWeights[x]) {
+                const i = (y * image.width + index) * 4;
+                const alpha = image.data[i + 3] * weight;
+                r += image.data[i] * alpha;
+                g += image.data[i + 1] * alpha;
+                b += image.data[i + 2] * alpha;
+                a += alpha;
+            }
+            const o = (y * width + x) * 4;
+            temp[o] = r;
+            temp[o + 1] = g;
+            temp[o + 2] = b;
+            temp[o + 3] = a;
+        }
+    }
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (const { index, weight } of rowWeights[y]) {
+                const i = (index * width + x) * 4;
+                r += temp[i] * weight;
+                g += temp[i + 1] * weight;
+                b += temp[i + 2] * weight;
+                a += temp[i + 3] * weight;
+            }
+            const o = (y * width + x) * 4;
+            if (a > 0) {
+                data[o] = Math.min(Math.round(r / a), 255);
+                data[o + 1] = Math.min(Math.round(g / a), 255);
+                data[o + 2] = Math.min(Math.round(b / a), 255);
+            }
+            data[o + 3] = Math.min(Math.round(a), 255);
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * Generates a tangent-space normal map (following the glTF conventions) from a bump map.
+ * @param {IRawImage} bump Bump map where brighter pixels represent higher surface.
+ * @param {number} [strength=2.0] Scale of the height differences.
+ * @returns {IRawImage} Normal map of the same size.
+ */
+export function convertBumpToNormal(bump: IRawImage, strength: number = 2.0): IRawImage {
+    const { width, height } = bump;
+    const heights = new Float32Array(width * height);
+    for (let i = 0; i < heights.length; i++) {
+        heights[i] = (bump.data[i * 4] + bump.data[i * 4 + 1] + bump.data[i * 4 + 2]) / (3 * 255);
+    }
+    // Textures are usually tiled, so the neighborhood of edge pixels wraps around
+    const h = (x: number, y: number) => heights[((y + height) % height) * width + ((x + width) % width)];
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // Sobel operator, with the Y axis pointing up (towards the first row of the image)
+            const dx = (h(x + 1, y - 1) + 2 * h(x + 1, y) + h(x + 1, y + 1)) - (h(x - 1, y - 1) + 2 * h(x - 1, y) + h(x - 1, y + 1));
+            const dy = (h(x - 1, y - 1) + 2 * h(x, y - 1) + h(x + 1, y - 1)) - (h(x - 1, y + 1) + 2 * h(x, y + 1) + h(x + 1, y + 1));
+            const nx = -dx * strength, ny = -dy * strength, nz = 1.0;
+            const length = Math.hypot(nx, ny, nz);
+            const i = (y * width + x) * 4;
+            data[i] = Math.round((nx / length * 0.5 + 0.5) * 255);
+            data[i + 1] = Math.round((ny / length * 0.5 + 0.5) * 255);
+            data[i + 2] = Math.round((nz / length * 0.5 + 0.5) * 255);
+            data[i + 3] = 255;
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * Generates a glTF metallic-roughness texture (with roughness in the green channel) from a roughness map.
+ * The blue channel with metalness is left at its maximum, so that the metalness is only controlled by the material factor.
+ * @param {IRawImage} roughness Roughness map where brighter pixels represent rougher surface.
+ * @returns {IRawImage} Metallic-roughness texture of the same size.
+ */
+export function convertRoughnessToMetallicRoughness(roughness: IRawImage): IRawImage {
+    const { width, height } = roughness;
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = 255;
+        data[i + 1] = Math.round((roughness.data[i] + roughness.data[i + 1] + roughness.data[i + 2]) / 3);
+        data[i + 2] = 255;
+        data[i + 3] = 255;
+    }
+    return { width, height, data };
+}
+
+/**
+ * Combines color image with the luminance of another image used as the alpha channel.
+ * @param {IRawImage | null} color Color image, or null to use plain white color.
+ * @param {IRawImage} alpha Alpha map where white pixels are opaque and black pixels are transparent.
+ * The map is resampled (using nearest neighbors) if its size differs from the color image.
+ * @returns {IRawImage} New RGBA image.
+ */
+export function combineWithAlpha(color: IRawImage | null, alpha: IRawImage): IRawImage {
+    const width = color ? color.width : alpha.width;
+    const height = color ? color.height : alpha.height;
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        const ay = Math.min(Math.floor(y * alpha.height / height), alpha.height - 1);
+        for (let x = 0; x < width; x++) {
+            const ax = Math.min(Math.floor(x * alpha.width / width), alpha.width - 1);
+            const i = (y * width + x) * 4;
+            const j = (ay * alpha.width + ax) * 4;
+            data[i] = color ? color.data[i] : 255;
+            data[i + 1] = color ? color.data[i + 1] : 255;
+            data[i + 2] = color ? color.data[i + 2] : 255;
+            data[i + 3] = Math.round((alpha.data[j] + alpha.data[j + 1] + alpha.data[j + 2]) / 3 * alpha.data[j + 3] / 255);
+        }
+    }
+    return { width, height, data };
+}
@@ -76,6 +76,12 @@ export class InputStream {
         return val;
     }
 
+    getBytes(len: number): Buffer {
+        const val = this._buffer.subarray(this._offset, this._offset + len);
+        this._offset += len;
+        return val;
+    }
+
     getString(len: number): string {
         const val = this._buffer.toString('utf8', this._offset, this._offset + len);
         this._offset += len;
@@ -103,7 +103,7 @@ export enum GeometryKind {
 
 export interface IMeshGeometry {
     kind: GeometryKind.Mesh;
-    getIndices(): Uint16Array;
+    getIndices(): Uint16Array | Uint32Array;
     getVertices(): Float32Array;
     getNormals(): Float32Array | undefined;
     getColors(): Float32Array | undefined;
@@ -113,7 +113,7 @@ export interface IMeshGeometry {
 
 export interface ILineGeometry {
     kind: GeometryKind.Lines;
-    getIndices(): Uint16Array;
+    getIndices(): Uint16Array | Uint32Array;
     getVertices(): Float32Array;
     getColors(): Float32Array | undefined;
 }
@@ -140,10 +140,23 @@ export interface IPhysicalMaterial {
     metallic: number;
     roughness: number;
     opacity: number;
+    emissive?: IVec3;
+    specular?: IVec3;
+    reflectivity?: number; // Reflectance at normal incidence (for non-metals)
+    transmission?: number; // Fraction of light transmitted through the surface (for glass-like materials)
+    ior?: number; // Index of refraction
     maps?: {
         diffuse?: string;
+        specular?: string;
+        normal?: string;
+        bump?: string;
+        alpha?: string;
+        roughness?: string;
     };
-    scale?: IVec2;
+    scale?: IVec2; // Scale of texture coordinates
+    offset?: IVec2; // Offset of texture coordinates (applied after scale and rotation)
+    rotation?: number; // Counter-clockwise rotation of texture coordinates (in radians, applied after scale)
+    repeat?: { u: boolean; v: boolean; }; // Whether textures repeat along each of the axes (or are clamped to their edges)
 }
 
 export type Material = IPhysicalMaterial;
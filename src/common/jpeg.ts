@@ -0,0 +1,847 @@
+import { IRawImage } from './images';
+
+/**
+ * Positions of DCT coefficients (in the natural, row-major order of an 8x8 block) listed in the zig-zag order.
+ */
+const ZigZag = new Int32Array([
+    0, 1, 8, 16, 9, 2, 3, 10,
+    17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34,
+    27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36,
+    29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46,
+    53, 60, 61, 54, 47, 55, 62, 63
+]);
+
+// Example quantization tables from Annex K of the JPEG spec (in natural order)
+const LuminanceQuantization = [
+    16, 11, 10, 16, 24, 40, 51, 61,
+    12, 12, 14, 19, 26, 58, 60, 55,
+    14, 13, 16, 24, 40, 57, 69, 56,
+    14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77,
+    24, 35, 55, 64, 81, 104, 113, 92,
+    49, 64, 78, 87, 103, 121, 120, 101,
+    72, 92, 95, 98, 112, 100, 103, 99
+];
+const ChrominanceQuantization = [
+    17, 18, 24, 47, 99, 99, 99, 99,
+    18, 21, 26, 66, 99, 99, 99, 99,
+    24, 26, 56, 99, 99, 99, 99, 99,
+    47, 66, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99
+];
+
+// Example Huffman tables from Annex K of the JPEG spec (number of codes of each length, and the values they encode)
+const LuminanceDC = {
+    counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+    values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+};
+const ChrominanceDC = {
+    counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+    values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+};
+const LuminanceAC = {
+    counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7D],
+    values: [
+        0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+        0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xA1, 0x08, 0x23, 0x42, 0xB1, 0xC1, 0x15, 0x52, 0xD1, 0xF0,
+        0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0A, 0x16, 0x17, 0x18, 0x19, 0x1A, 0x25, 0x26, 0x27, 0x28,
+        0x29, 0x2A, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3A, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+        0x4A, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+        0x6A, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+        0x8A, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9A, 0xA2, 0xA3, 0xA4, 0xA5, 0xA6, 0xA7,
+        0xA8, 0xA9, 0xAA, 0xB2, 0xB3, 0xB4, 0xB5, 0xB6, 0xB7, 0xB8, 0xB9, 0xBA, 0xC2, 0xC3, 0xC4, 0xC5,
+        0xC6, 0xC7, 0xC8, 0xC9, 0xCA, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9, 0xDA, 0xE1, 0xE2,
+        0xE3, 0xE4, 0xE5, 0xE6, 0xE7, 0xE8, 0xE9, 0xEA, 0xF1, 0xF2, 0xF3, 0xF4, 0xF5, 0xF6, 0xF7, 0xF8,
+        0xF9, 0xFA
+    ]
+};
+const ChrominanceAC = {
+    counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+    values: [
+        0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+        0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xA1, 0xB1, 0xC1, 0x09, 0x23, 0x33, 0x52, 0xF0,
+        0x15, 0x62, 0x72, 0xD1, 0x0A, 0x16, 0x24, 0x34, 0xE1, 0x25, 0xF1, 0x17, 0x18, 0x19, 0x1A, 0x26,
+        0x27, 0x28, 0x29, 0x2A, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3A, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+        0x49, 0x4A, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+        0x69, 0x6A, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+        0x88, 0x89, 0x8A, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9A, 0xA2, 0xA3, 0xA4, 0xA5,
+        0xA6, 0xA7, 0xA8, 0xA9, 0xAA, 0xB2, 0xB3, 0xB4, 0xB5, 0xB6, 0xB7, 0xB8, 0xB9, 0xBA, 0xC2, 0xC3,
+        0xC4, 0xC5, 0xC6, 0xC7, 0xC8, 0xC9, 0xCA, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9, 0xDA,
+        0xE2, 0xE3, 0xE4, 0xE5, 0xE6, 0xE7, 0xE8, 0xE9, 0xEA, 0xF2, 0xF3, 0xF4, 0xF5, 0xF6, 0xF7, 0xF8,
+        0xF9, 0xFA
+    ]
+};
+
+/**
+ * Scaled cosines used by the (inverse) discrete cosine transform, indexed by frequency and sample position.
+ */
+const CosineTable = (() => {
+    const table = new Float64Array(64);
+    for (let u = 0; u < 8; u++) {
+        const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+        for (let x = 0; x < 8; x++) {
+            table[u * 8 + x] = scale * Math.cos((2 * x + 1) * u * Math.PI / 16);
+        }
+    }
+    return table;
+})();
+
+/**
+ * Huffman table prepared for decoding, as described in section F.2.2.3 of the JPEG spec.
+ */
+interface IHuffmanDecodingTable {
+    maxCode: Int32Array;
+    minCode: Int32Array;
+    valuePointers: Int32Array;
+    values: Uint8Array;
+}
+
+interface IFrameComponent {
+    id: number;
+    h: number; // Horizontal sampling factor
+    v: number; // Vertical sampling factor
+    quantizationTable: number;
+    blocksPerLine: number;
+    blocksPerColumn: number;
+    blocksPerLineForMcu: number;
+    coefficients: Int16Array; // 64 coefficients (in natural order) for each block
+    dcTable?: IHuffmanDecodingTable;
+    acTable?: IHuffmanDecodingTable;
+    pred: number;
+}
+
+function buildHuffmanDecodingTable(counts: Uint8Array, values: Uint8Array): IHuffmanDecodingTable {
+    const maxCode = new Int32Array(17).fill(-1);
+    const minCode = new Int32Array(17);
+    const valuePointers = new Int32Array(17);
+    let code = 0, k = 0;
+    for (let length = 1; length <= 16; length++) {
+        valuePointers[length] = k;
+        minCode[length] = code;
+        code += counts[length - 1];
+        k += counts[length - 1];
+        if (counts[length - 1] > 0) {
+            maxCode[length] = code - 1;
+        }
+        code <<= 1;
+    }
+    return { maxCode, minCode, valuePointers, values };
+}
+
+/**
+ * Checks whether given buffer contains a JPEG image.
+ */
+export function isJpeg(buffer: Buffer): boolean {
+    return buffer.length >= 3 && buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF;
+}
+
+/**
+ * Reads dimensions of a JPEG image without decoding it.
+ * @param {Buffer} buffer JPEG file content.
+ * @returns {{ width: number, height: number } | null} Image dimensions, or null if they could not be found.
+ */
+export function readJpegSize(buffer: Buffer): { width: number, height: number } | null {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xFF) {
+            offset++;
+            continue;
+        }
+        const marker = buffer[offset + 1];
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+            return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        }
+        if (marker === 0xFF || marker === 0xD8 || (marker >= 0xD0 && marker <= 0xD7)) {
+            offset++;
+            continue;
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return null;
+}
+
+/**
+ * Decodes JPEG image into 8-bit RGBA pixels.
+ * Supports baseline and progressive images with Huffman coding, in grayscale, YCbCr, RGB, CMYK or YCCK color spaces.
+ * @param {Buffer} buffer JPEG file content.
+ * @returns {IRawImage} Decoded image.
+ * @throws Will throw an error if the buffer is not a valid JPEG image, or if it uses unsupported features (e.g., arithmetic coding).
+ */
+export function decodeJpeg(buffer: Buffer): IRawImage {
+    if (!isJpeg(buffer)) {
+        throw new Error('Not a JPEG image.');
+    }
+    const quantizationTables: Uint16Array[] = [];
+    const dcTables: IHuffmanDecodingTable[] = [];
+    const acTables: IHuffmanDecodingTable[] = [];
+    let components: IFrameComponent[] = [];
+    let width = 0, height = 0, progressive = false, frameFound = false;
+    let mcusPerLine = 0, mcusPerColumn = 0, maxH = 1, maxV = 1;
+    let restartInterval = 0;
+    let adobeTransform = -1;
+
+    let offset = 2;
+    while (offset < buffer.length) {
+        if (buffer[offset] !== 0xFF) {
+            offset++; // Skip garbage between segments
+            continue;
+        }
+        const marker = buffer[offset + 1];
+        offset += 2;
+        if (marker === 0xD9) { // EOI
+            break;
+        }
+        if (marker === 0xFF || marker === 0x00 || marker === 0xD8 || (marker >= 0xD0 && marker <= 0xD7)) {
+            offset -= 1; // Fill bytes and markers without any segment data
+            continue;
+        }
+        const length = buffer.readUInt16BE(offset);
+        const segment = buffer.subarray(offset + 2, offset + length);
+        switch (marker) {
+            case 0xDB: { // Define quantization tables
+                let i = 0;
+                while (i < segment.length) {
+                    const precision = segment[i] >> 4;
+                    const id = segment[i] & 15;
+                    i++;
+                    const table = new Uint16Array(64);
+                    for (let k = 0; k < 64; k++) {
+                        table[ZigZag[k]] = precision ? segment.readUInt16BE(i + k * 2) : segment[i + k];
+                    }
+                    i += precision ? 128 : 64;
+                    quantizationTables[id] = table;
+                }
+                break;
+            }
+            case 0xC4: { // Define Huffman tables
+                let i = 0;
+                while (i < segment.length) {
+                    const tableClass = segment[i] >> 4;
+                    const id = segment[i] & 15;
+                    const counts = segment.subarray(i + 1, i + 17);
+                    const valueCount = counts.reduce((sum, count) => sum + count, 0);
+                    const values = segment.subarray(i + 17, i + 17 + valueCount);
+                    (tableClass === 0 ? dcTables : acTables)[id] = buildHuffmanDecodingTable(counts, values);
+                    i += 17 + valueCount;
+                }
+                break;
+            }
+            case 0xDD: // Define restart interval
+                restartInterval = segment.readUInt16BE(0);
+                break;
+            case 0xEE: // APP14, possibly with Adobe color transform flag
+                if (segment.length >= 12 && segment.toString('ascii', 0, 5) === 'Adobe') {
+                    adobeTransform = segment[11];
+                }
+                break;
+            case 0xC0: // Baseline DCT
+            case 0xC1: // Extended sequential DCT
+            case 0xC2: { // Progressive DCT
+                if (frameFound) {
+                    throw new Error('JPEG images with multiple frames are not supported.');
+                }
+                frameFound = true;
+                progressive = marker === 0xC2;
+                if (segment[0] !== 8) {
+                    throw new Error(`Unsupported JPEG sample precision: ${segment[0]}`);
+                }
+                height = segment.readUInt16BE(1);
+                width = segment.readUInt16BE(3);
+                const componentCount = segment[5];
+                components = [];
+                for (let i = 0; i < componentCount; i++) {
+                    const h = segment[6 + i * 3 + 1] >> 4;
+                    const v = segment[6 + i * 3 + 1] & 15;
+                    components.push({
+                        id: segment[6 + i * 3],
+                        h: h || 1,
+                        v: v || 1,
+                        quantizationTable: segment[6 + i * 3 + 2],
+                        blocksPerLine: 0,
+                        blocksPerColumn: 0,
+                        blocksPerLineForMcu: 0,
+                        coefficients: new Int16Array(0),
+                        pred: 0
+                    });
+                }
+                maxH = Math.max(...components.map(c => c.h));
+                maxV = Math.max(...components.map(c => c.v));
+                mcusPerLine = Math.ceil(width / (8 * maxH));
+                mcusPerColumn = Math.ceil(height / (8 * maxV));
+                for (const component of components) {
+                    component.blocksPerLine = Math.ceil(Math.ceil(width * component.h / maxH) / 8);
+                    component.blocksPerColumn = Math.ceil(Math.ceil(height * component.v / maxV) / 8);
+                    component.blocksPerLineForMcu = mcusPerLine * component.h;
+                    component.coefficients = new Int16Array(component.blocksPerLineForMcu * mcusPerColumn * component.v * 64);
+                }
+                break;
+            }
+            case 0xC3: case 0xC5: case 0xC6: case 0xC7:
+            case 0xC9: case 0xCA: case 0xCB: case 0xCD: case 0xCE: case 0xCF:
+                throw new Error(`Unsupported JPEG encoding (SOF${marker - 0xC0}).`);
+            case 0xDA: { // Start of scan
+                const scanComponents: IFrameComponent[] = [];
+                const count = segment[0];
+                for (let i = 0; i < count; i++) {
+                    const component = components.find(c => c.id === segment[1 + i * 2]);
+                    if (!component) {
+                        throw new Error('Invalid JPEG scan component.');
+                    }
+                    component.dcTable = dcTables[segment[2 + i * 2] >> 4];
+                    component.acTable = acTables[segment[2 + i * 2] & 15];
+                    scanComponents.push(component);
+                }
+                const spectralStart = segment[1 + count * 2];
+                const spectralEnd = segment[2 + count * 2];
+                const successiveHigh = segment[3 + count * 2] >> 4;
+                const successiveLow = segment[3 + count * 2] & 15;
+                offset = decodeScan(buffer, offset + length, scanComponents, progressive, restartInterval, mcusPerLine, mcusPerColumn,
+                    spectralStart, spectralEnd, successiveHigh, successiveLow);
+                continue;
+            }
+        }
+        offset += length;
+    }
+    if (!frameFound) {
+        throw new Error('Missing JPEG frame.');
+    }
+
+    // Reconstruct samples of individual components
+    const planes = components.map(component => {
+        const table = quantizationTables[component.quantizationTable];
+        if (!table) {
+            throw new Error('Missing JPEG quantization table.');
+        }
+        return computeComponentSamples(component, table);
+    });
+
+    // Upsample the components (using nearest neighbors) and convert them to RGB
+    const data = new Uint8Array(width * height * 4);
+    const transform = components.length === 3
+        ? adobeTransform !== 0 && !(components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42) // Components named "R", "G", "B" are not transformed
+        : adobeTransform === 2; // YCCK
+    const samples = new Array<number>(components.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            for (let c = 0; c < components.length; c++) {
+                const component = components[c];
+                const cx = Math.floor(x * component.h / maxH);
+                const cy = Math.floor(y * component.v / maxV);
+                samples[c] = planes[c][cy * component.blocksPerLineForMcu * 8 + cx];
+            }
+            const i = (y * width + x) * 4;
+            if (components.length === 1) {
+                data[i] = data[i + 1] = data[i + 2] = samples[0];
+            } else {
+                let r = samples[0], g = samples[1], b = samples[2];
+                if (transform) {
+                    const Y = samples[0], Cb = samples[1] - 128, Cr = samples[2] - 128;
+                    r = Y + 1.402 * Cr;
+                    g = Y - 0.344136 * Cb - 0.714136 * Cr;
+                    b = Y + 1.772 * Cb;
+                }
+                if (components.length === 4) {
+                    // Adobe applications store CMYK values inverted
+                    const k = adobeTransform >= 0 ? samples[3] : 255 - samples[3];
+                    if (adobeTransform < 0) {
+                        r = 255 - r;
+                        g = 255 - g;
+                        b = 255 - b;
+                    }
+                    r = r * k / 255;
+                    g = g * k / 255;
+                    b = b * k / 255;
+                }
+                data[i] = Math.min(Math.max(Math.round(r), 0), 255);
+                data[i + 1] = Math.min(Math.max(Math.round(g), 0), 255);
+                data[i + 2] = Math.min(Math.max(Math.round(b), 0), 255);
+            }
+            data[i + 3] = 255;
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * Decodes entropy-coded data of a single scan into the coefficients of its components.
+ * @returns {number} Offset of the first marker following the scan data.
+ */
+function decodeScan(data: Buffer, offset: number, components: IFrameComponent[], progressive: boolean, restartInterval: number,
+    mcusPerLine: number, mcusPerColumn: number, spectralStart: number, spectralEnd: number, successiveHigh: number, successiveLow: number): number {
+    let bitsData = 0, bitsCount = 0;
+    const readBit = (): number => {
+        if (bitsCount > 0) {
+            bitsCount--;
+            return (bitsData >> bitsCount) & 1;
+        }
+        if (offset >= data.length) {
+            return 0;
+        }
+        if (data[offset] === 0xFF && data[offset + 1] !== 0x00) {
+            return 0; // Unexpected marker, keep returning zeros until the end of the restart interval
+        }
+        bitsData = data[offset++];
+        if (bitsData === 0xFF) {
+            offset++; // Skip the stuffed zero byte
+        }
+        bitsCount = 7;
+        return bitsData >> 7;
+    };
+    const receive = (length: number): number => {
+        let n = 0;
+        while (length-- > 0) {
+            n = (n << 1) | readBit();
+        }
+        return n;
+    };
+    const receiveAndExtend = (length: number): number => {
+        if (length === 0) {
+            return 0;
+        }
+        const n = receive(length);
+        return n >= 1 << (length - 1) ? n : n + (-1 << length) + 1;
+    };
+    const decodeHuffman = (table: IHuffmanDecodingTable | undefined): number => {
+        if (!table) {
+            throw new Error('Missing JPEG Huffman table.');
+        }
+        let code = 0;
+        for (let length = 1; length <= 16; length++) {
+            code = (code << 1) | readBit();
+            if (code <= table.maxCode[length]) {
+                return table.values[table.valuePointers[length] + code - table.minCode[length]];
+            }
+        }
+        return 0; // Corrupted data
+    };
+
+    let eobrun = 0;
+    let successiveACState = 0, successiveACNextValue = 0;
+    type BlockDecoder = (component: IFrameComponent, blockOffset: number) => void;
+    const decodeBaseline: BlockDecoder = (component, blockOffset) => {
+        const coefficients = component.coefficients;
+        const t = decodeHuffman(component.dcTable);
+        component.pred += t === 0 ? 0 : receiveAndExtend(t);
+        coefficients[blockOffset] = component.pred;
+        let k = 1;
+        while (k < 64) {
+            const rs = decodeHuffman(component.acTable);
+            const s = rs & 15, r = rs >> 4;
+            if (s === 0) {
+                if (r < 15) {
+                    break;
+                }
+                k += 16;
+                continue;
+            }
+            k += r;
+            if (k > 63) {
+                break;
+            }
+            coefficients[blockOffset + ZigZag[k]] = receiveAndExtend(s);
+            k++;
+        }
+    };
+    const decodeDCFirst: BlockDecoder = (component, blockOffset) => {
+        const t = decodeHuffman(component.dcTable);
+        component.pred += t === 0 ? 0 : receiveAndExtend(t) * (1 << successiveLow);
+        component.coefficients[blockOffset] = component.pred;
+    };
+    const decodeDCSuccessive: BlockDecoder = (component, blockOffset) => {
+        if (readBit()) {
+            component.coefficients[blockOffset] |= 1 << successiveLow;
+        }
+    };
+    const decodeACFirst: BlockDecoder = (component, blockOffset) => {
+        if (eobrun > 0) {
+            eobrun--;
+            return;
+        }
+        let k = spectralStart;
+        while (k <= spectralEnd) {
+            const rs = decodeHuffman(component.acTable);
+            const s = rs & 15, r = rs >> 4;
+            if (s === 0) {
+                if (r < 15) {
+                    eobrun = receive(r) + (1 << r) - 1;
+                    break;
+                }
+                k += 16;
+                continue;
+            }
+            k += r;
+            if (k > 63) {
+                break;
+            }
+            component.coefficients[blockOffset + ZigZag[k]] = receiveAndExtend(s) * (1 << successiveLow);
+            k++;
+        }
+    };
+    const decodeACSuccessive: BlockDecoder = (component, blockOffset) => {
+        const coefficients = component.coefficients;
+        let k = spectralStart, r = 0;
+        while (k <= spectralEnd) {
+            const z = blockOffset + ZigZag[k];
+            const sign = coefficients[z] < 0 ? -1 : 1;
+            switch (successiveACState) {
+                case 0: { // Initial state
+                    const rs = decodeHuffman(component.acTable);
+                    const s = rs & 15;
+                    r = rs >> 4;
+                    if (s === 0) {
+                        if (r < 15) {
+                            eobrun = receive(r) + (1 << r);
+                            successiveACState = 4;
+                        } else {
+                            r = 16;
+                            successiveACState = 1;
+                        }
+                    } else {
+                        successiveACNextValue = receiveAndExtend(s);
+                        successiveACState = r ? 2 : 3;
+                    }
+                    continue;
+                }
+                case 1: // Skipping r zero coefficients
+                case 2:
+                    if (coefficients[z]) {
+                        coefficients[z] += sign * (readBit() << successiveLow);
+                    } else {
+                        r--;
+                        if (r === 0) {
+                            successiveACState = successiveACState === 2 ? 3 : 0;
+                        }
+                    }
+                    break;
+                case 3: // Setting value of a zero coefficient
+                    if (coefficients[z]) {
+                        coefficients[z] += sign * (readBit() << successiveLow);
+                    } else {
+                        coefficients[z] = successiveACNextValue << successiveLow;
+                        successiveACState = 0;
+                    }
+                    break;
+                case 4: // End of band
+                    if (coefficients[z]) {
+                        coefficients[z] += sign * (readBit() << successiveLow);
+                    }
+                    break;
+            }
+            k++;
+        }
+        if (successiveACState === 4) {
+            eobrun--;
+            if (eobrun === 0) {
+                successiveACState = 0;
+            }
+        }
+    };
+
+    let decodeBlock: BlockDecoder;
+    if (!progressive) {
+        decodeBlock = decodeBaseline;
+    } else if (spectralStart === 0) {
+        decodeBlock = successiveHigh === 0 ? decodeDCFirst : decodeDCSuccessive;
+    } else {
+        decodeBlock = successiveHigh === 0 ? decodeACFirst : decodeACSuccessive;
+    }
+
+    // Scans with a single component are not interleaved, and only cover the blocks within the image
+    const single = components.length === 1;
+    const mcuCount = single ? components[0].blocksPerLine * components[0].blocksPerColumn : mcusPerLine * mcusPerColumn;
+    const interval = restartInterval || mcuCount;
+    let mcu = 0;
+    while (mcu < mcuCount) {
+        for (const component of components) {
+            component.pred = 0;
+        }
+        eobrun = 0;
+        successiveACState = 0;
+        for (let n = 0; n < interval && mcu < mcuCount; n++, mcu++) {
+            if (single) {
+                const component = components[0];
+                const blockRow = Math.floor(mcu / component.blocksPerLine);
+                const blockCol = mcu % component.blocksPerLine;
+                decodeBlock(component, 64 * (blockRow * component.blocksPerLineForMcu + blockCol));
+            } else {
+                const mcuRow = Math.floor(mcu / mcusPerLine);
+                const mcuCol = mcu % mcusPerLine;
+                for (const component of components) {
+                    for (let v = 0; v < component.v; v++) {
+                        for (let h = 0; h < component.h; h++) {
+                            const blockRow = mcuRow * component.v + v;
+                            const blockCol = mcuCol * component.h + h;
+                            decodeBlock(component, 64 * (blockRow * component.blocksPerLineForMcu + blockCol));
+                        }
+                    }
+                }
+            }
+        }
+
+        // Find the next marker, and continue with the next restart interval if it is a RST marker
+        bitsCount = 0;
+        while (offset + 1 < data.length && !(data[offset] === 0xFF && data[offset + 1] !== 0x00 && data[offset + 1] !== 0xFF)) {
+            offset++;
+        }
+        if (offset + 1 < data.length && data[offset + 1] >= 0xD0 && data[offset + 1] <= 0xD7) {
+            offset += 2;
+        } else {
+            break;
+        }
+    }
+    return offset;
+}
+
+/**
+ * Dequantizes coefficients of all blocks of a component, and transforms them into samples.
+ * @returns {Uint8Array} Samples of the component, with rows of `blocksPerLineForMcu * 8` samples.
+ */
+function computeComponentSamples(component: IFrameComponent, quantizationTable: Uint16Array): Uint8Array {
+    const lineLength = component.blocksPerLineForMcu * 8;
+    const blockRows = component.coefficients.length / 64 / component.blocksPerLineForMcu;
+    const samples = new Uint8Array(lineLength * blockRows * 8);
+    const block = new Float64Array(64);
+    const temp = new Float64Array(64);
+    for (let blockRow = 0; blockRow < blockRows; blockRow++) {
+        for (let blockCol = 0; blockCol < component.blocksPerLineForMcu; blockCol++) {
+            const blockOffset = 64 * (blockRow * component.blocksPerLineForMcu + blockCol);
+            let hasAC = false;
+            for (let i = 0; i < 64; i++) {
+                block[i] = component.coefficients[blockOffset + i] * quantizationTable[i];
+                hasAC = hasAC || (i > 0 && block[i] !== 0);
+            }
+            const outOffset = blockRow * 8 * lineLength + blockCol * 8;
+            if (!hasAC) {
+                // Blocks with only the DC coefficient have a constant value
+                const value = Math.min(Math.max(Math.round(block[0] / 8 + 128), 0), 255);
+                for (let y = 0; y < 8; y++) {
+                    samples.fill(value, outOffset + y * lineLength, outOffset + y * lineLength + 8);
+                }
+                continue;
+            }
+            // Separable inverse DCT, first along the rows, then along the columns
+            for (let v = 0; v < 8; v++) {
+                for (let x = 0; x < 8; x++) {
+                    let sum = 0;
+                    for (let u = 0; u < 8; u++) {
+                        sum += CosineTable[u * 8 + x] * block[v * 8 + u];
+                    }
+                    temp[v * 8 + x] = sum;
+                }
+            }
+            for (let x = 0; x < 8; x++) {
+                for (let y = 0; y < 8; y++) {
+                    let sum = 0;
+                    for (let v = 0; v < 8; v++) {
+                        sum += CosineTable[v * 8 + y] * temp[v * 8 + x];
+                    }
+                    samples[outOffset + y * lineLength + x] = Math.min(Math.max(Math.round(sum + 128), 0), 255);
+                }
+            }
+        }
+    }
+    return samples;
+}
+
+/**
+ * Huffman table prepared for encoding, with codes and their lengths indexed by the encoded values.
+ */
+interface IHuffmanEncodingTable {
+    codes: Uint16Array;
+    lengths: Uint8Array;
+}
+
+function buildHuffmanEncodingTable(spec: { counts: number[], values: number[] }): IHuffmanEncodingTable {
+    const codes = new Uint16Array(256);
+    const lengths = new Uint8Array(256);
+    let code = 0, k = 0;
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < spec.counts[length - 1]; i++) {
+            codes[spec.values[k]] = code;
+            lengths[spec.values[k]] = length;
+            code++;
+            k++;
+        }
+        code <<= 1;
+    }
+    return { codes, lengths };
+}
+
+function createQuantizationTable(base: number[], quality: number): Uint8Array {
+    // Scaling of the example tables used by the Independent JPEG Group
+    const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+    return new Uint8Array(base.map(value => Math.min(Math.max(Math.floor((value * scale + 50) / 100), 1), 255)));
+}
+
+/**
+ * Encodes 8-bit RGBA pixels into a baseline JPEG (with 4:2:0 chroma subsampling). The alpha channel is ignored.
+ * @param {IRawImage} image Image to encode.
+ * @param {number} [quality=90] Quality of the compression (1-100).
+ * @returns {Buffer} JPEG file content.
+ */
+export function encodeJpeg(image: IRawImage, quality: number = 90): Buffer {
+    const { width, height, data } = image;
+    quality = Math.min(Math.max(Math.round(quality), 1), 100);
+    const luminanceTable = createQuantizationTable(LuminanceQuantization, quality);
+    const chrominanceTable = createQuantizationTable(ChrominanceQuantization, quality);
+    const tables = {
+        luminanceDC: buildHuffmanEncodingTable(LuminanceDC),
+        luminanceAC: buildHuffmanEncodingTable(LuminanceAC),
+        chrominanceDC: buildHuffmanEncodingTable(ChrominanceDC),
+        chrominanceAC: buildHuffmanEncodingTable(ChrominanceAC)
+    };
+
+    const output: number[] = [];
+    const writeWord = (value: number) => output.push((value >> 8) & 0xFF, value & 0xFF);
+    const writeSegment = (marker: number, content: number[]) => {
+        writeWord(marker);
+        writeWord(content.length + 2);
+        for (const byte of content) {
+            output.push(byte);
+        }
+    };
+    writeWord(0xFFD8); // SOI
+    writeSegment(0xFFE0, [0x4A, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]); // JFIF
+    writeSegment(0xFFDB, [
+        0x00, ...Array.from(ZigZag, i => luminanceTable[i]),
+        0x01, ...Array.from(ZigZag, i => chrominanceTable[i])
+    ]);
+    writeSegment(0xFFC0, [
+        8, height >> 8, height & 0xFF, width >> 8, width & 0xFF, 3,
+        1, 0x22, 0, // Y, sampled 2x2 per MCU
+        2, 0x11, 1, // Cb
+        3, 0x11, 1 // Cr
+    ]);
+    writeSegment(0xFFC4, [
+        0x00, ...LuminanceDC.counts, ...LuminanceDC.values,
+        0x10, ...LuminanceAC.counts, ...LuminanceAC.values,
+        0x01, ...ChrominanceDC.counts, ...ChrominanceDC.values,
+        0x11, ...ChrominanceAC.counts, ...ChrominanceAC.values
+    ]);
+    writeSegment(0xFFDA, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+    let bitBuffer = 0, bitCount = 0;
+    const writeBits = (code: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) {
+            bitBuffer = (bitBuffer << 1) | ((code >> i) & 1);
+            bitCount++;
+            if (bitCount === 8) {
+                output.push(bitBuffer);
+                if (bitBuffer === 0xFF) {
+                    output.push(0x00); // Byte stuffing
+                }
+                bitBuffer = 0;
+                bitCount = 0;
+            }
+        }
+    };
+    const writeValue = (value: number, table: IHuffmanEncodingTable, symbolBase: number) => {
+        // Values are encoded as their category (bit length), followed by the bits of the value (one's complement for negative values)
+        const magnitude = Math.abs(value);
+        const category = magnitude === 0 ? 0 : 32 - Math.clz32(magnitude);
+        const symbol = symbolBase | category;
+        writeBits(table.codes[symbol], table.lengths[symbol]);
+        if (category > 0) {
+            writeBits(value < 0 ? value + (1 << category) - 1 : value, category);
+        }
+    };
+
+    const block = new Float64Array(64);
+    const temp = new Float64Array(64);
+    const quantized = new Int32Array(64);
+    const encodeBlock = (samples: Float64Array, quantization: Uint8Array, dc: IHuffmanEncodingTable, ac: IHuffmanEncodingTable, pred: number): number => {
+        // Separable forward DCT
+        for (let y = 0; y < 8; y++) {
+            for (let u = 0; u < 8; u++) {
+                let sum = 0;
+                for (let x = 0; x < 8; x++) {
+                    sum += CosineTable[u * 8 + x] * samples[y * 8 + x];
+                }
+                temp[y * 8 + u] = sum;
+            }
+        }
+        for (let u = 0; u < 8; u++) {
+            for (let v = 0; v < 8; v++) {
+                let sum = 0;
+                for (let y = 0; y < 8; y++) {
+                    sum += CosineTable[v * 8 + y] * temp[y * 8 + u];
+                }
+                block[v * 8 + u] = sum;
+            }
+        }
+        for (let k = 0; k < 64; k++) {
+            quantized[k] = Math.round(block[ZigZag[k]] / quantization[ZigZag[k]]);
+        }
+        writeValue(quantized[0] - pred, dc, 0);
+        let run = 0;
+        for (let k = 1; k < 64; k++) {
+            if (quantized[k] === 0) {
+                run++;
+                continue;
+            }
+            while (run > 15) {
+                writeBits(ac.codes[0xF0], ac.lengths[0xF0]); // 16 zeros
+                run -= 16;
+            }
+            writeValue(quantized[k], ac, run << 4);
+            run = 0;
+        }
+        if (run > 0) {
+            writeBits(ac.codes[0x00], ac.lengths[0x00]); // End of block
+        }
+        return quantized[0];
+    };
+
+    // Convert pixels (clamped to the image edges) into YCbCr
+    const sampleY = new Float64Array(256), sampleCb = new Float64Array(256), sampleCr = new Float64Array(256);
+    const blockSamples = new Float64Array(64);
+    let predY = 0, predCb = 0, predCr = 0;
+    for (let mcuY = 0; mcuY < height; mcuY += 16) {
+        for (let mcuX = 0; mcuX < width; mcuX += 16) {
+            for (let y = 0; y < 16; y++) {
+                const py = Math.min(mcuY + y, height - 1);
+                for (let x = 0; x < 16; x++) {
+                    const px = Math.min(mcuX + x, width - 1);
+                    const i = (py * width + px) * 4;
+                    const r = data[i], g = data[i + 1], b = data[i + 2];
+                    sampleY[y * 16 + x] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+                    sampleCb[y * 16 + x] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+                    sampleCr[y * 16 + x] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+                }
+            }
+            for (const [bx, by] of [[0, 0], [8, 0], [0, 8], [8, 8]]) {
+                for (let y = 0; y < 8; y++) {
+                    for (let x = 0; x < 8; x++) {
+                        blockSamples[y * 8 + x] = sampleY[(by + y) * 16 + bx + x];
+                    }
+                }
+                predY = encodeBlock(blockSamples, luminanceTable, tables.luminanceDC, tables.luminanceAC, predY);
+            }
+            for (const [source, isCb] of [[sampleCb, true], [sampleCr, false]] as [Float64Array, boolean][]) {
+                // Chroma is subsampled by averaging 2x2 neighborhoods
+                for (let y = 0; y < 8; y++) {
+                    for (let x = 0; x < 8; x++) {
+                        const i = y * 2 * 16 + x * 2;
+                        blockSamples[y * 8 + x] = (source[i] + source[i + 1] + source[i + 16] + source[i + 17]) / 4;
+                    }
+                }
+                if (isCb) {
+                    predCb = encodeBlock(blockSamples, chrominanceTable, tables.chrominanceDC, tables.chrominanceAC, predCb);
+                } else {
+                    predCr = encodeBlock(blockSamples, chrominanceTable, tables.chrominanceDC, tables.chrominanceAC, predCr);
+                }
+            }
+        }
+    }
+    if (bitCount > 0) {
+        writeBits(0x7F, 8 - bitCount); // Pad the last byte with ones
+    }
+    writeWord(0xFFD9); // EOI
+    return Buffer.from(output);
+}
@@ -0,0 +1,251 @@
+/**
+ * Decoder of raw LZMA streams (as used, for example, by the MG1 and MG2 methods of OpenCTM),
+ * following the reference decoder from the LZMA SDK.
+ */
+
+const NumStates = 12;
+const NumPosBitsMax = 4;
+const NumLenToPosStates = 4;
+const NumAlignBits = 4;
+const StartPosModelIndex = 4;
+const EndPosModelIndex = 14;
+const NumFullDistances = 1 << (EndPosModelIndex >> 1);
+const MatchMinLen = 2;
+const ProbabilityInitValue = 1024; // Probabilities are 11-bit numbers, starting at 0.5
+
+class RangeDecoder {
+    protected range = 0xFFFFFFFF;
+    protected code = 0;
+    protected offset: number;
+
+    constructor(protected input: Uint8Array, offset: number = 0) {
+        if (input[offset] !== 0) {
+            throw new Error('Invalid LZMA stream.');
+        }
+        this.offset = offset + 1;
+        for (let i = 0; i < 4; i++) {
+            this.code = (this.code * 256 + this.nextByte()) >>> 0;
+        }
+        if (this.code === this.range) {
+            throw new Error('Invalid LZMA stream.');
+        }
+    }
+
+    protected nextByte(): number {
+        // Reading past the end of the input yields zeros, corrupted streams are detected by the caller
+        return this.offset < this.input.length ? this.input[this.offset++] : 0;
+    }
+
+    protected normalize() {
+        if (this.range < 0x1000000) {
+            this.range = (this.range * 256) >>> 0;
+            this.code = (this.code * 256 + this.nextByte()) >>> 0;
+        }
+    }
+
+    decodeDirectBits(numBits: number): number {
+        let result = 0;
+        while (numBits-- > 0) {
+            this.range >>>= 1;
+            let bit = 0;
+            if (this.code >= this.range) {
+                this.code -= this.range;
+                bit = 1;
+            }
+            result = ((result << 1) | bit) >>> 0;
+            this.normalize();
+        }
+        return result;
+    }
+
+    decodeBit(probs: Uint16Array, index: number): number {
+        const prob = probs[index];
+        const bound = (this.range >>> 11) * prob;
+        let bit: number;
+        if (this.code < bound) {
+            probs[index] = prob + ((2048 - prob) >>> 5);
+            this.range = bound;
+            bit = 0;
+        } else {
+            probs[index] = prob - (prob >>> 5);
+            this.code -= bound;
+            this.range -= bound;
+            bit = 1;
+        }
+        this.normalize();
+        return bit;
+    }
+
+    decodeBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+        let m = 1;
+        for (let i = 0; i < numBits; i++) {
+            m = (m << 1) + this.decodeBit(probs, offset + m);
+        }
+        return m - (1 << numBits);
+    }
+
+    decodeReverseBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+        let m = 1, symbol = 0;
+        for (let i = 0; i < numBits; i++) {
+            const bit = this.decodeBit(probs, offset + m);
+            m = (m << 1) + bit;
+            symbol |= bit << i;
+        }
+        return symbol;
+    }
+}
+
+class LengthDecoder {
+    protected choice = new Uint16Array(2).fill(ProbabilityInitValue);
+    protected low = new Uint16Array(1 << NumPosBitsMax << 3).fill(ProbabilityInitValue);
+    protected mid = new Uint16Array(1 << NumPosBitsMax << 3).fill(ProbabilityInitValue);
+    protected high = new Uint16Array(1 << 8).fill(ProbabilityInitValue);
+
+    decode(rc: RangeDecoder, posState: number): number {
+        if (rc.decodeBit(this.choice, 0) === 0) {
+            return rc.decodeBitTree(this.low, posState << 3, 3);
+        }
+        if (rc.decodeBit(this.choice, 1) === 0) {
+            return 8 + rc.decodeBitTree(this.mid, posState << 3, 3);
+        }
+        return 16 + rc.decodeBitTree(this.high, 0, 8);
+    }
+}
+
+/**
+ * Decompresses raw LZMA data (without the header used by *.lzma files).
+ * @param {Uint8Array} properties The 5 bytes of LZMA properties (lc/lp/pb and dictionary size).
+ * @param {Uint8Array} input Compressed data.
+ * @param {number} outputSize Size of the uncompressed data.
+ * @returns {Uint8Array} Uncompressed data.
+ * @throws Will throw an error if the compressed data is corrupted.
+ */
+export function decompressLzma(properties: Uint8Array, input: Uint8Array, outputSize: number): Uint8Array {
+    let d = properties[0];
+    if (d >= 9 * 5 * 5) {
+        throw new Error('Invalid LZMA properties.');
+    }
+    const lc = d % 9;
+    d = Math.floor(d / 9);
+    const lp = d % 5;
+    const pb = Math.floor(d / 5);
+
+    // The output buffer serves as the dictionary, so the dictionary size (in the remaining properties) can be ignored
+    const output = new Uint8Array(outputSize);
+    const rc = new RangeDecoder(input);
+    const literalProbs = new Uint16Array(0x300 << (lc + lp)).fill(ProbabilityInitValue);
+    const posSlotProbs = new Uint16Array(NumLenToPosStates << 6).fill(ProbabilityInitValue);
+    const posProbs = new Uint16Array(1 + NumFullDistances - EndPosModelIndex).fill(ProbabilityInitValue);
+    const alignProbs = new Uint16Array(1 << NumAlignBits).fill(ProbabilityInitValue);
+    const isMatch = new Uint16Array(NumStates << NumPosBitsMax).fill(ProbabilityInitValue);
+    const isRep = new Uint16Array(NumStates).fill(ProbabilityInitValue);
+    const isRepG0 = new Uint16Array(NumStates).fill(ProbabilityInitValue);
+    const isRepG1 = new Uint16Array(NumStates).fill(ProbabilityInitValue);
+    const isRepG2 = new Uint16Array(NumStates).fill(ProbabilityInitValue);
+    const isRep0Long = new Uint16Array(NumStates << NumPosBitsMax).fill(ProbabilityInitValue);
+    const lenDecoder = new LengthDecoder();
+    const repLenDecoder = new LengthDecoder();
+
+    const decodeDistance = (len: number): number => {
+        const lenState = Math.min(len, NumLenToPosStates - 1);
+        const posSlot = rc.decodeBitTree(posSlotProbs, lenState << 6, 6);
+        if (posSlot < StartPosModelIndex) {
+            return posSlot;
+        }
+        const numDirectBits = (posSlot >>> 1) - 1;
+        let dist = ((2 | (posSlot & 1)) << numDirectBits) >>> 0;
+        if (posSlot < EndPosModelIndex) {
+            dist += rc.decodeReverseBitTree(posProbs, dist - posSlot, numDirectBits);
+        } else {
+            dist += rc.decodeDirectBits(numDirectBits - NumAlignBits) * (1 << NumAlignBits);
+            dist += rc.decodeReverseBitTree(alignProbs, 0, NumAlignBits);
+        }
+        return dist >>> 0;
+    };
+
+    let state = 0, rep0 = 0, rep1 = 0, rep2 = 0, rep3 = 0;
+    let outPos = 0;
+    const pbMask = (1 << pb) - 1, lpMask = (1 << lp) - 1;
+    while (outPos < outputSize) {
+        const posState = outPos & pbMask;
+        if (rc.decodeBit(isMatch, (state << NumPosBitsMax) + posState) === 0) {
+            // Literal, optionally predicted by the byte at the distance of the last match
+            const prevByte = outPos > 0 ? output[outPos - 1] : 0;
+            const offset = 0x300 * (((outPos & lpMask) << lc) + (prevByte >>> (8 - lc)));
+            let symbol = 1;
+            if (state >= 7) {
+                let matchByte = output[outPos - rep0 - 1];
+                do {
+                    const matchBit = (matchByte >>> 7) & 1;
+                    matchByte <<= 1;
+                    const bit = rc.decodeBit(literalProbs, offset + ((1 + matchBit) << 8) + symbol);
+                    symbol = (symbol << 1) | bit;
+                    if (matchBit !== bit) {
+                        break;
+                    }
+                } while (symbol < 0x100);
+            }
+            while (symbol < 0x100) {
+                symbol = (symbol << 1) | rc.decodeBit(literalProbs, offset + symbol);
+            }
+            output[outPos++] = symbol - 0x100;
+            state = state < 4 ? 0 : (state < 10 ? state - 3 : state - 6);
+            continue;
+        }
+
+        let len: number;
+        if (rc.decodeBit(isRep, state) !== 0) {
+            if (outPos === 0) {
+                throw new Error('Invalid LZMA stream.');
+            }
+            if (rc.decodeBit(isRepG0, state) === 0) {
+                if (rc.decodeBit(isRep0Long, (state << NumPosBitsMax) + posState) === 0) {
+                    // Single byte at the distance of the last match
+                    state = state < 7 ? 9 : 11;
+                    output[outPos] = output[outPos - rep0 - 1];
+                    outPos++;
+                    continue;
+                }
+            } else {
+                let dist: number;
+                if (rc.decodeBit(isRepG1, state) === 0) {
+                    dist = rep1;
+                } else {
+                    if (rc.decodeBit(isRepG2, state) === 0) {
+                        dist = rep2;
+                    } else {
+                        dist = rep3;
+                        rep3 = rep2;
+                    }
+                    rep2 = rep1;
+                }
+                rep1 = rep0;
+                rep0 = dist;
+            }
+            len = repLenDecoder.decode(rc, posState);
+            state = state < 7 ? 8 : 11;
+        } else {
+            rep3 = rep2;
+            rep2 = rep1;
+            rep1 = rep0;
+            len = lenDecoder.decode(rc, posState);
+            state = state < 7 ? 7 : 10;
+            rep0 = decodeDistance(len);
+            if (rep0 === 0xFFFFFFFF) {
+                break; // End marker
+            }
+            if (rep0 >= outPos) {
+                throw new Error('Invalid LZMA stream.');
+            }
+        }
+
+        len += MatchMinLen;
+        for (const end = Math.min(outPos + len, outputSize); outPos < end; outPos++) {
+            output[outPos] = output[outPos - rep0 - 1];
+        }
+    }
+    if (outPos < outputSize) {
+        throw new Error('Unexpected end of LZMA stream.');
+    }
+    return output;
+}
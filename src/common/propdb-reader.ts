@@ -1,5 +1,23 @@
 import * as zlib from 'zlib';
 
+/**
+ * Data types of property database attributes.
+ */
+export enum AttributeType {
+    Unknown = 0,
+    Boolean = 1,
+    Integer = 2,
+    Double = 3,
+    Float = 4,
+    BLOB = 10,
+    DbKey = 11,
+    String = 20,
+    LocalizableString = 21,
+    DateTime = 22,
+    GeoLocation = 23,
+    Position = 24
+}
+
 /**
  * Helper class for parsing and querying property database
  * stored in various 'objects_*.json.gz' assets in an SVF.
@@ -12,19 +30,37 @@ export class PropDbReader {
     protected _vals: any[];
 
     /**
-     * Initializes the property database reader.
-     * @param {Buffer} ids Content of objects_ids.json.gz file.
-     * @param {Buffer} offsets Content of objects_offs.json.gz file.
-     * @param {Buffer} avs Content of objects_avs.json.gz file.
-     * @param {Buffer} attrs Content of objects_attrs.json.gz file.
-     * @param {Buffer} vals Content of objects_vals.json.gz file.
+     * Initializes the property database reader. Each of the inputs can either be the content of the corresponding
+     * gzipped JSON file, or an array that has already been decoded (for example, from the SVF2 property database).
+     * @param {Buffer | any[]} ids Content of objects_ids.json.gz file.
+     * @param {Buffer | number[]} offsets Content of objects_offs.json.gz file.
+     * @param {Buffer | number[]} avs Content of objects_avs.json.gz file.
+     * @param {Buffer | any[]} attrs Content of objects_attrs.json.gz file.
+     * @param {Buffer | any[]} vals Content of objects_vals.json.gz file.
+     */
+    constructor(ids: Buffer | any[], offsets: Buffer | number[], avs: Buffer | number[], attrs: Buffer | any[], vals: Buffer | any[]) {
+        const parse = (data: Buffer | any[]) => Buffer.isBuffer(data) ? JSON.parse(zlib.gunzipSync(data).toString()) : data;
+        this._ids = parse(ids);
+        this._offsets = parse(offsets);
+        this._avs = parse(avs);
+        this._attrs = parse(attrs);
+        this._vals = parse(vals);
+    }
+
+    /**
+     * Enumerates definitions of all attributes (i.e., types of properties) in the database.
+     * @generator
+     * @returns {Iterable<{ id: number; name: string; category: string; dataType: AttributeType; displayName: string }>}
+     * ID, name, category, data type, and display name of each attribute.
      */
-    constructor(ids: Buffer, offsets: Buffer, avs: Buffer, attrs: Buffer, vals: Buffer) {
-        this._ids = JSON.parse(zlib.gunzipSync(ids).toString());
-        this._offsets = JSON.parse(zlib.gunzipSync(offsets).toString());
-        this._avs = JSON.parse(zlib.gunzipSync(avs).toString());
-        this._attrs = JSON.parse(zlib.gunzipSync(attrs).toString());
-        this._vals = JSON.parse(zlib.gunzipSync(vals).toString());
+    *enumerateAttributes(): Iterable<{ id: number; name: string; category: string; dataType: AttributeType; displayName: string }> {
+        // The first entry of the attribute list is not an actual attribute definition
+        for (let id = 1; id < this._attrs.length; id++) {
+            const attr = this._attrs[id];
+            if (Array.isArray(attr)) {
+                yield { id, name: attr[0], category: attr[1], dataType: attr[2] ?? AttributeType.Unknown, displayName: attr[5] || attr[0] };
+            }
+        }
     }
 
     /**
@@ -66,6 +102,67 @@ export class PropDbReader {
         return props;
     }
 
+    /**
+     * Enumerates "public" properties of given object, followed by the properties inherited from the object's type
+     * (the "__instanceof__" relationship) and from its parents. The same property may be enumerated multiple times
+     * (e.g., when it is defined both by the object and by its type), in which case the first value takes precedence.
+     * @generator
+     * @param {number} id Object ID.
+     * @returns {Iterable<{ name: string; category: string; value: any }>} Name, category, and value of each property.
+     */
+    *enumerateInheritedProperties(id: number): Iterable<{ name: string; category: string; value: any }> {
+        const visited = new Set<number>();
+        const queue = [id];
+        while (queue.length > 0) {
+            const current = queue.shift() as number;
+            if (visited.has(current)) {
+                continue;
+            }
+            visited.add(current);
+            const related: number[] = [];
+            for (const prop of this.enumerateProperties(current)) {
+                if (prop.category === '__instanceof__') {
+                    related.unshift(prop.value as number);
+                } else if (prop.category === '__parent__') {
+                    related.push(prop.value as number);
+                } else if (!(prop.category && prop.category.match(/^__\w+__$/))) {
+                    yield prop;
+                }
+            }
+            queue.push(...related);
+        }
+    }
+
+    /**
+     * Finds the value of a "public" property of given object. If the object does not have the property,
+     * it is looked up in the object's type (the "__instanceof__" relationship), and in its parents.
+     * @param {number} id Object ID.
+     * @param {string} name Property name.
+     * @returns {any} Property value, or undefined if the property could not be found.
+     */
+    findProperty(id: number, name: string): any {
+        for (const prop of this.enumerateInheritedProperties(id)) {
+            if (prop.name === name) {
+                return prop.value;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds the name of given object.
+     * @param {number} id Object ID.
+     * @returns {string | undefined} Object name, or undefined if the object has no name.
+     */
+    getName(id: number): string | undefined {
+        for (const prop of this.enumerateProperties(id)) {
+            if (prop.category === '__name__') {
+                return prop.value as string;
+            }
+        }
+        return undefined;
+    }
+
     /**
      * Finds IDs of all children of given object.
      * @param {number} id Object ID.
@@ -0,0 +1,221 @@
+import * as IMF from './intermediate-format';
+
+/**
+ * Column-major 4x4 matrix (the same layout as used by IMF and glTF transforms).
+ */
+export type Matrix4x4 = number[];
+
+/**
+ * Multiplies two column-major 4x4 matrices.
+ * @param {Matrix4x4} a Left-hand matrix.
+ * @param {Matrix4x4} b Right-hand matrix.
+ * @returns {Matrix4x4} New matrix representing the transform `a * b`.
+ */
+export function multiplyMatrices(a: Matrix4x4, b: Matrix4x4): Matrix4x4 {
+    const result = new Array<number>(16);
+    for (let col = 0; col < 4; col++) {
+        for (let row = 0; row < 4; row++) {
+            result[col * 4 + row] =
+                a[row] * b[col * 4] +
+                a[4 + row] * b[col * 4 + 1] +
+                a[8 + row] * b[col * 4 + 2] +
+                a[12 + row] * b[col * 4 + 3];
+        }
+    }
+    return result;
+}
+
+/**
+ * Rotates a 3D vector by a unit quaternion.
+ * @param {number[]} q Quaternion as [x, y, z, w].
+ * @param {number[]} v Vector as [x, y, z].
+ * @returns {number[]} Rotated vector.
+ */
+export function rotateVector(q: number[], v: number[]): number[] {
+    const [qx, qy, qz, qw] = q;
+    // t = 2 * cross(q.xyz, v)
+    const tx = 2 * (qy * v[2] - qz * v[1]);
+    const ty = 2 * (qz * v[0] - qx * v[2]);
+    const tz = 2 * (qx * v[1] - qy * v[0]);
+    // v' = v + w * t + cross(q.xyz, t)
+    return [
+        v[0] + qw * tx + (qy * tz - qz * ty),
+        v[1] + qw * ty + (qz * tx - qx * tz),
+        v[2] + qw * tz + (qx * ty - qy * tx)
+    ];
+}
+
+/**
+ * Transform decomposed into translation, rotation (quaternion as [x, y, z, w]), and scale.
+ */
+export interface IDecomposedTransform {
+    translation: number[];
+    rotation: number[];
+    scale: number[];
+}
+
+/**
+ * Decomposes a column-major 4x4 matrix into translation, rotation, and scale.
+ * @param {Matrix4x4} m Matrix to decompose.
+ * @param {number} [epsilon=1e-5] Tolerance used when checking that the matrix has no shear or projection.
+ * @returns {IDecomposedTransform | null} Decomposed transform, or null if the matrix
+ * cannot be represented by translation, rotation, and scale only.
+ */
+export function decomposeMatrix(m: Matrix4x4, epsilon: number = 1e-5): IDecomposedTransform | null {
+    if (Math.abs(m[3]) > epsilon || Math.abs(m[7]) > epsilon || Math.abs(m[11]) > epsilon || Math.abs(m[15] - 1.0) > epsilon) {
+        return null;
+    }
+    const axes = [
+        [m[0], m[1], m[2]],
+        [m[4], m[5], m[6]],
+        [m[8], m[9], m[10]]
+    ];
+    const scale = axes.map(axis => Math.hypot(axis[0], axis[1], axis[2]));
+    if (scale[0] < epsilon || scale[1] < epsilon || scale[2] < epsilon) {
+        return null;
+    }
+    // Mirroring is represented by a negative scale along the X axis
+    const determinant =
+        axes[0][0] * (axes[1][1] * axes[2][2] - axes[1][2] * axes[2][1]) -
+        axes[1][0] * (axes[0][1] * axes[2][2] - axes[0][2] * axes[2][1]) +
+        axes[2][0] * (axes[0][1] * axes[1][2] - axes[0][2] * axes[1][1]);
+    if (determinant < 0) {
+        scale[0] = -scale[0];
+    }
+    const [x, y, z] = axes.map((axis, i) => axis.map(value => value / scale[i]));
+    const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+    if (Math.abs(dot(x, y)) > epsilon || Math.abs(dot(y, z)) > epsilon || Math.abs(dot(z, x)) > epsilon) {
+        return null;
+    }
+
+    // Convert the rotation matrix (with columns x, y, z) into a quaternion
+    let rotation: number[];
+    const trace = x[0] + y[1] + z[2];
+    if (trace > 0) {
+        const s = 0.5 / Math.sqrt(trace + 1.0);
+        rotation = [(y[2] - z[1]) * s, (z[0] - x[2]) * s, (x[1] - y[0]) * s, 0.25 / s];
+    } else if (x[0] > y[1] && x[0] > z[2]) {
+        const s = 2.0 * Math.sqrt(1.0 + x[0] - y[1] - z[2]);
+        rotation = [0.25 * s, (y[0] + x[1]) / s, (z[0] + x[2]) / s, (y[2] - z[1]) / s];
+    } else if (y[1] > z[2]) {
+        const s = 2.0 * Math.sqrt(1.0 + y[1] - x[0] - z[2]);
+        rotation = [(y[0] + x[1]) / s, 0.25 * s, (z[1] + y[2]) / s, (z[0] - x[2]) / s];
+    } else {
+        const s = 2.0 * Math.sqrt(1.0 + z[2] - x[0] - y[1]);
+        rotation = [(z[0] + x[2]) / s, (z[1] + y[2]) / s, 0.25 * s, (x[1] - y[0]) / s];
+    }
+
+    return {
+        translation: [m[12], m[13], m[14]],
+        rotation,
+        scale
+    };
+}
+
+/**
+ * Creates a matrix transforming a coordinate system given by its up and front vectors
+ * into a right-handed, Y-up coordinate system (with Z axis pointing to the front).
+ * @param {number[]} up World up vector.
+ * @param {number[]} front World front vector.
+ * @param {number} [scale=1.0] Additional uniform scale (e.g., for converting units).
+ * @returns {Matrix4x4 | null} Column-major matrix, or null if the vectors do not define a valid coordinate system.
+ */
+export function createCoordinateSystemMatrix(up: number[], front: number[], scale: number = 1.0): Matrix4x4 | null {
+    const left = [
+        up[1] * front[2] - up[2] * front[1],
+        up[2] * front[0] - up[0] * front[2],
+        up[0] * front[1] - up[1] * front[0]
+    ];
+    if (left[0] * left[0] + left[1] * left[1] + left[2] * left[2] === 0.0) {
+        return null;
+    }
+    return [
+        left[0] * scale, up[0] * scale, front[0] * scale, 0,
+        left[1] * scale, up[1] * scale, front[1] * scale, 0,
+        left[2] * scale, up[2] * scale, front[2] * scale, 0,
+        0, 0, 0, 1
+    ];
+}
+
+/**
+ * Composes a column-major 4x4 matrix from translation, rotation, and scale.
+ * @param {IDecomposedTransform} transform Decomposed transform.
+ * @returns {Matrix4x4} Matrix representing the transform.
+ */
+export function composeMatrix(transform: IDecomposedTransform): Matrix4x4 {
+    const [x, y, z, w] = transform.rotation;
+    const [sx, sy, sz] = transform.scale;
+    const [tx, ty, tz] = transform.translation;
+    return [
+        (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+        2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+        2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+        tx, ty, tz, 1
+    ];
+}
+
+/**
+ * Transforms a 3D point by a column-major 4x4 matrix (assuming no projection).
+ * @param {Matrix4x4} m Transform matrix.
+ * @param {number} x X coordinate of the point.
+ * @param {number} y Y coordinate of the point.
+ * @param {number} z Z coordinate of the point.
+ * @returns {number[]} Transformed point.
+ */
+export function transformPoint(m: Matrix4x4, x: number, y: number, z: number): number[] {
+    return [
+        m[0] * x + m[4] * y + m[8] * z + m[12],
+        m[1] * x + m[5] * y + m[9] * z + m[13],
+        m[2] * x + m[6] * y + m[10] * z + m[14]
+    ];
+}
+
+/**
+ * Computes the matrix transforming normals, i.e., the inverse transpose of the upper 3x3 part of given matrix.
+ * The result is only defined up to a positive scale, so transformed normals must be re-normalized.
+ * @param {Matrix4x4} m Transform matrix.
+ * @returns {number[]} Column-major 3x3 matrix.
+ */
+export function createNormalMatrix(m: Matrix4x4): number[] {
+    // Cofactor matrix (inverse transpose scaled by the determinant), with the sign of the determinant removed
+    const c = [
+        m[5] * m[10] - m[6] * m[9], m[6] * m[8] - m[4] * m[10], m[4] * m[9] - m[5] * m[8],
+        m[9] * m[2] - m[10] * m[1], m[10] * m[0] - m[8] * m[2], m[8] * m[1] - m[9] * m[0],
+        m[1] * m[6] - m[2] * m[5], m[2] * m[4] - m[0] * m[6], m[0] * m[5] - m[1] * m[4]
+    ];
+    const determinant = m[0] * c[0] + m[1] * c[1] + m[2] * c[2];
+    return determinant < 0 ? c.map(value => -value) : c;
+}
+
+/**
+ * Computes the determinant of the upper 3x3 part of a column-major 4x4 matrix
+ * (negative for transforms that mirror the geometry).
+ * @param {Matrix4x4} m Transform matrix.
+ * @returns {number} Determinant.
+ */
+export function computeDeterminant(m: Matrix4x4): number {
+    return m[0] * (m[5] * m[10] - m[6] * m[9]) -
+        m[4] * (m[1] * m[10] - m[2] * m[9]) +
+        m[8] * (m[1] * m[6] - m[2] * m[5]);
+}
+
+/**
+ * Converts an IMF transform into a column-major 4x4 matrix.
+ * @param {IMF.Transform} [transform] IMF transform (identity if undefined).
+ * @returns {Matrix4x4} Matrix representing the transform.
+ */
+export function getTransformMatrix(transform?: IMF.Transform): Matrix4x4 {
+    switch (transform?.kind) {
+        case IMF.TransformKind.Matrix:
+            return transform.elements.slice();
+        case IMF.TransformKind.Decomposed:
+            const { translation, rotation, scale } = transform;
+            return composeMatrix({
+                translation: translation ? [translation.x, translation.y, translation.z] : [0, 0, 0],
+                rotation: rotation ? [rotation.x, rotation.y, rotation.z, rotation.w] : [0, 0, 0, 1],
+                scale: scale ? [scale.x, scale.y, scale.z] : [1, 1, 1]
+            });
+        default:
+            return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * Finds the scale converting given distance unit into meters.
+ * @param {string} distanceUnit Distance unit as specified in the "distance unit" scene metadata (e.g., "ft", "mm", or "meter").
+ * @returns {number} Number of meters per unit (1.0 for meters and unknown units).
+ */
+export function getMetersPerUnit(distanceUnit: string): number {
+    switch (distanceUnit) {
+        case 'centimeter':
+        case 'cm':
+            return 0.01;
+        case 'millimeter':
+        case 'mm':
+            return 0.001;
+        case 'foot':
+        case 'ft':
+            return 0.3048;
+        case 'inch':
+        case 'in':
+            return 0.0254;
+        default:    // "meter" / "m"
+            return 1.0;
+    }
+}
@@ -0,0 +1,113 @@
+import * as draco3d from 'draco3dgltf';
+import type { EncoderModule } from 'draco3d';
+
+/**
+ * Options for Draco mesh compression.
+ */
+export interface IDracoOptions {
+    positionBits?: number; /** Quantization bits for vertex positions (14 by default) */
+    normalBits?: number; /** Quantization bits for vertex normals (10 by default) */
+    texcoordBits?: number; /** Quantization bits for texture coordinates (12 by default) */
+    colorBits?: number; /** Quantization bits for vertex colors (8 by default) */
+    encodeSpeed?: number; /** Encoding speed, from 0 (slowest, best compression) to 10 (fastest) (5 by default) */
+    decodeSpeed?: number; /** Decoding speed, from 0 (slowest, best compression) to 10 (fastest) (5 by default) */
+}
+
+/**
+ * Mesh encoded using Draco, with IDs of individual attributes as expected
+ * by the KHR_draco_mesh_compression glTF extension.
+ */
+export interface IDracoMesh {
+    data: Uint8Array;
+    attributes: { [semantic: string]: number };
+    vertexCount: number;
+    triangleCount: number;
+}
+
+/**
+ * Thin wrapper around the Draco encoder module (https://github.com/google/draco).
+ */
+export class DracoEncoder {
+    /**
+     * Loads the Draco encoder module and initializes a new encoder.
+     * @async
+     * @param {IDracoOptions} [options={}] Compression options.
+     * @returns {Promise<DracoEncoder>} Initialized encoder.
+     */
+    static async Create(options: IDracoOptions = {}): Promise<DracoEncoder> {
+        const module = await draco3d.createEncoderModule({});
+        return new DracoEncoder(module, {
+            positionBits: options.positionBits ?? 14,
+            normalBits: options.normalBits ?? 10,
+            texcoordBits: options.texcoordBits ?? 12,
+            colorBits: options.colorBits ?? 8,
+            encodeSpeed: options.encodeSpeed ?? 5,
+            decodeSpeed: options.decodeSpeed ?? 5
+        });
+    }
+
+    private constructor(private readonly module: EncoderModule, private readonly options: Required<IDracoOptions>) {}
+
+    /**
+     * Encodes triangle mesh data.
+     * @param {Uint16Array | Uint32Array} indices Triangle indices.
+     * @param {Float32Array} vertices Vertex positions (3 floats per vertex).
+     * @param {Float32Array} [normals] Optional vertex normals (3 floats per vertex).
+     * @param {Float32Array} [colors] Optional vertex colors (4 floats per vertex).
+     * @param {Float32Array} [uvs] Optional texture coordinates (2 floats per vertex).
+     * @param {Float32Array} [featureIds] Optional feature IDs (1 float per vertex), encoded without quantization.
+     * @returns {IDracoMesh | null} Encoded mesh, or null if the mesh could not be encoded.
+     */
+    encodeMesh(indices: Uint16Array | Uint32Array, vertices: Float32Array, normals?: Float32Array, colors?: Float32Array, uvs?: Float32Array, featureIds?: Float32Array): IDracoMesh | null {
+        const module = this.module;
+        const encoder = new module.Encoder();
+        const builder = new module.MeshBuilder();
+        const mesh = new module.Mesh();
+        const encoded = new module.DracoInt8Array();
+        try {
+            const vertexCount = vertices.length / 3;
+            const attributes: { [semantic: string]: number } = {};
+            builder.AddFacesToMesh(mesh, indices.length / 3, indices);
+            attributes.POSITION = builder.AddFloatAttribute(mesh, module.POSITION, vertexCount, 3, vertices);
+            encoder.SetAttributeQuantization(module.POSITION, this.options.positionBits);
+            if (normals) {
+                attributes.NORMAL = builder.AddFloatAttribute(mesh, module.NORMAL, vertexCount, 3, normals);
+                encoder.SetAttributeQuantization(module.NORMAL, this.options.normalBits);
+            }
+            if (colors) {
+                attributes.COLOR_0 = builder.AddFloatAttribute(mesh, module.COLOR, vertexCount, 4, colors);
+                encoder.SetAttributeQuantization(module.COLOR, this.options.colorBits);
+            }
+            if (uvs) {
+                attributes.TEXCOORD_0 = builder.AddFloatAttribute(mesh, module.TEX_COORD, vertexCount, 2, uvs);
+                encoder.SetAttributeQuantization(module.TEX_COORD, this.options.texcoordBits);
+            }
+            if (featureIds) {
+                attributes._FEATURE_ID_0 = builder.AddFloatAttribute(mesh, module.GENERIC, vertexCount, 1, featureIds);
+            }
+            encoder.SetSpeedOptions(this.options.encodeSpeed, this.options.decodeSpeed);
+            encoder.SetEncodingMethod(module.MESH_EDGEBREAKER_ENCODING);
+            encoder.SetTrackEncodedProperties(true);
+            const byteLength = encoder.EncodeMeshToDracoBuffer(mesh, encoded);
+            if (byteLength <= 0) {
+                return null;
+            }
+            const data = new Uint8Array(byteLength);
+            for (let i = 0; i < byteLength; i++) {
+                data[i] = encoded.GetValue(i);
+            }
+            return {
+                data,
+                attributes,
+                // The encoder can split vertices when processing non-manifold geometry
+                vertexCount: encoder.GetNumberOfEncodedPoints(),
+                triangleCount: encoder.GetNumberOfEncodedFaces()
+            };
+        } finally {
+            module.destroy(encoded);
+            module.destroy(mesh);
+            module.destroy(builder);
+            module.destroy(encoder);
+        }
+    }
+}
@@ -0,0 +1,4 @@
+// The glTF-specific build of the Draco library shares its API with the "draco3d" package
+declare module 'draco3dgltf' {
+    export { createEncoderModule, createDecoderModule } from 'draco3d';
+}
@@ -1,11 +1,24 @@
 import * as path from 'path';
 import crypto from 'crypto';
 import * as fse from 'fs-extra';
+import { MeshoptEncoder } from 'meshoptimizer';
 import * as gltf from './schema';
 import { ImagePlaceholder } from '../common/image-placeholders';
+import { combineWithAlpha, convertBumpToNormal, convertRoughnessToMetallicRoughness, decodeImage, encodePng, IRawImage, readImageSize, resizeImage } from '../common/images';
+import { encodeJpeg, isJpeg } from '../common/jpeg';
 import * as IMF from '../common/intermediate-format';
+import { AttributeType, PropDbReader } from '../common/propdb-reader';
+import { computeDeterminant, createCoordinateSystemMatrix, createNormalMatrix, decomposeMatrix, getTransformMatrix, IDecomposedTransform, multiplyMatrices, rotateVector, transformPoint } from '../common/transforms';
+import { getMetersPerUnit } from '../common/units';
+import { DracoEncoder, IDracoOptions } from './draco';
 
 const MaxBufferSize = 5 << 20;
+const MaxGlbSize = 0xffffffff; // GLB header stores the total length as uint32
+const GlbMagic = 0x46546C67; // "glTF"
+const GlbChunkTypeJSON = 0x4E4F534A; // "JSON"
+const GlbChunkTypeBIN = 0x004E4942; // "BIN\0"
+const DefaultIor = 1.5;
+const JpegQuality = 90; // Quality of JPEG images re-encoded after downscaling
 const DefaultMaterial: gltf.MaterialPbrMetallicRoughness = {
     pbrMetallicRoughness: {
         baseColorFactor: [0.25, 0.25, 0.25, 1.0],
@@ -24,10 +37,118 @@ export interface IWriterOptions {
     center?: boolean; /** Move the model to origin. */
     log?: (msg: string) => void; /** Optional logging function. */
     filter?: (dbid: number, fragid: number) => boolean;
+    binary?: boolean; /** Output a single, self-contained GLB file with all buffers and images embedded (ignores `maxBufferSize`). */
+    draco?: boolean | IDracoOptions; /** Compress mesh geometry using the KHR_draco_mesh_compression extension, optionally with custom quantization settings. */
+    quantize?: boolean; /** Quantize vertex positions, normals, and texture coordinates using the KHR_mesh_quantization extension. */
+    meshopt?: boolean; /** Compress vertex and index buffers using the EXT_meshopt_compression extension. */
+    instancing?: boolean; /** Output fragments sharing the same geometry and material as a single node using the EXT_mesh_gpu_instancing extension, with their dbIDs stored as instance feature IDs. */
+    propertyDb?: PropDbReader | null; /** Property database to read object properties from (see `properties`). */
+    properties?: IPropertyFilter[]; /** Object properties to output as a property table using the EXT_structural_metadata extension (requires `propertyDb`). */
+    hierarchy?: boolean; /** Reconstruct the logical hierarchy of objects, with fragments attached to group nodes named after their objects (requires `propertyDb`). */
+    groupBy?: string | ((dbid: number) => string | undefined) | null; /** Split the output into one glTF per group of objects, grouped by the value of given property (requires `propertyDb`) or by a custom function, with an index of all groups in _groups.json_. */
+    mergeByMaterial?: boolean; /** Bake transforms of fragments with mesh geometry, and merge them into a single mesh per material, with dbIDs of individual vertices stored in the `_FEATURE_ID_0` attribute. */
+    materialExtensions?: boolean; /** Output material properties that cannot be expressed by the metallic-roughness model (transmission, index of refraction, specular color, emissive strength) using KHR_materials_* extensions, and use unlit materials for line and point geometry. */
+    maxTextureSize?: number; /** Downscale images so that neither their width nor their height exceeds given number of pixels (0 for no limit). */
+    textureBudget?: number; /** Approx. limit (in bytes) of the total size of all images when decoded into RGBA pixels; images are downscaled uniformly to fit the budget (0 for no limit). */
 }
 
-function hasTextures(material: IMF.Material | null): boolean {
-    return !!(material?.maps?.diffuse);
+/**
+ * Filter selecting object properties by their category and/or name.
+ */
+export interface IPropertyFilter {
+    category?: string;
+    name?: string;
+}
+
+type MeshoptMode = 'ATTRIBUTES' | 'TRIANGLES' | 'INDICES';
+
+/**
+ * Transform decoding vertex positions quantized into the <-1, 1> range.
+ */
+interface IDequantization {
+    offset: number[]; // Center of the original positions
+    scale: number; // Uniform scale of the original positions
+}
+
+function hasTextures(material: IMF.Material | null, includeSpecular: boolean): boolean {
+    const maps = material?.maps;
+    return !!(maps && (maps.diffuse || maps.normal || maps.bump || maps.alpha || maps.roughness || (includeSpecular && maps.specular)));
+}
+
+/**
+ * Computes the KHR_texture_transform extension for textures of a material. The texture transform is defined
+ * for the original texture coordinates (scaled, then rotated, then offset), but the coordinates are flipped
+ * vertically when reading the scene, so the transform has to be flipped as well.
+ * @param {IMF.Material} mat Material with the texture transform.
+ * @returns {object | null} Content of the extension, or null if the texture coordinates are not transformed.
+ */
+function computeTextureTransform(mat: IMF.Material): { offset?: number[], rotation?: number, scale?: number[] } | null {
+    const scale = [mat.scale?.x ?? 1.0, mat.scale?.y ?? 1.0];
+    const offset = [mat.offset?.x ?? 0.0, mat.offset?.y ?? 0.0];
+    const rotation = mat.rotation ?? 0.0;
+    if (scale[0] === 1.0 && scale[1] === 1.0 && offset[0] === 0.0 && offset[1] === 0.0 && rotation === 0.0) {
+        return null;
+    }
+    // Flipping the coordinates reverses the direction of the rotation, and moves the origin to (0, 1)
+    const transform: { offset?: number[], rotation?: number, scale?: number[] } = {
+        offset: [offset[0] - Math.sin(rotation) * scale[1], 1.0 - offset[1] - Math.cos(rotation) * scale[1]]
+    };
+    if (rotation !== 0.0) {
+        transform.rotation = rotation;
+    }
+    if (scale[0] !== 1.0 || scale[1] !== 1.0) {
+        transform.scale = scale;
+    }
+    return transform;
+}
+
+function normalizeImageUri(uri: string): string {
+    return uri.toLowerCase().split(/[\/\\]/).join(path.sep);
+}
+
+function removeExtension(uri: string): string {
+    const extension = path.extname(uri);
+    return extension ? uri.substr(0, uri.length - extension.length) : uri;
+}
+
+function quantizeSnorm(value: number, bits: number): number {
+    const max = (1 << (bits - 1)) - 1;
+    return Math.round(Math.max(-1.0, Math.min(1.0, value)) * max);
+}
+
+function quantizeUnorm(value: number, bits: number): number {
+    const max = (1 << bits) - 1;
+    return Math.round(Math.max(0.0, Math.min(1.0, value)) * max);
+}
+
+/**
+ * Maps property database attribute types to the types of EXT_structural_metadata class properties.
+ */
+function getPropertyDefinition(dataType: AttributeType): { type: string, componentType?: string, noData?: number | string } {
+    switch (dataType) {
+        case AttributeType.Boolean:
+            return { type: 'BOOLEAN' };
+        case AttributeType.Integer:
+        case AttributeType.DbKey:
+            return { type: 'SCALAR', componentType: 'INT32', noData: -2147483648 };
+        case AttributeType.Double:
+        case AttributeType.Float:
+            return { type: 'SCALAR', componentType: 'FLOAT64', noData: -Number.MAX_VALUE };
+        default:
+            return { type: 'STRING', noData: '' };
+    }
+}
+
+function getImageMimeType(extension: string): string {
+    switch (extension) {
+        case '.jpg':
+        case '.jpeg':
+            return 'image/jpeg';
+        case '.png':
+            return 'image/png';
+        default:
+            throw new Error(`Unsupported image format: ${extension}`);
+    }
 }
 
 interface IWriterStats {
@@ -35,6 +156,7 @@ interface IWriterStats {
     meshesDeduplicated: number;
     accessorsDeduplicated: number;
     bufferViewsDeduplicated: number;
+    imagesDeduplicated: number;
 }
 
 /**
@@ -47,17 +169,29 @@ export class Writer {
     protected manifest: gltf.GlTf;
     protected bufferStream: fse.WriteStream | null;
     protected bufferSize: number;
+    protected binaryChunks: Buffer[] = []; // Binary data collected in memory when outputting GLB
     protected bufferViewCache = new Map<string, gltf.BufferView>(); // Cache of existing buffer views, indexed by hash of the binary data they point to
     protected meshHashes = new Map<string, number>(); // List of hashes of existing gltf.Mesh objects, used for deduplication
     protected bufferViewHashes = new Map<string, number>(); // List of hashes of existing gltf.BufferView objects, used for deduplication
     protected accessorHashes = new Map<string, number>(); // List of hashes of existing gltf.Accessor objects, used for deduplication
     protected pendingTasks: Promise<void>[] = [];
+    protected dracoEncoder: DracoEncoder | null = null;
+    protected dracoPrimitiveCache = new Map<string, gltf.MeshPrimitive>(); // Cache of Draco-compressed primitives, indexed by hash of the source geometry data
+    protected positionDequantization = new Map<number, IDequantization>(); // Transforms decoding quantized positions, indexed by ID of their accessor
+    protected meshoptFallbackViews: gltf.BufferView[] = []; // Buffer views compressed using EXT_meshopt_compression, pointing to the (empty) fallback buffer
+    protected meshoptFallbackSize: number = 0;
+    protected featureIds = new Map<number, number>(); // Feature IDs (i.e., rows of the property table) assigned to individual dbIDs
     protected activeSvfMaterials: number[]; // List of SVF material IDs that are actually used during the glTF serialization (used to avoid serializing unused materials)
+    protected unlitMaterials: boolean[] = []; // Flags marking which of the active SVF materials should be output as unlit
+    protected imageUris = new Map<string, number>(); // IDs of glTF images indexed by their normalized URIs (including URIs of images that were deduplicated)
+    protected imageHashes = new Map<string, number>(); // IDs of glTF images indexed by hash of their content, used for deduplication
+    protected pendingImages: { imageID: number, data: Buffer }[] = []; // Content of images to be output (and possibly downscaled) once all materials are created
     protected stats: IWriterStats = {
         materialsDeduplicated: 0,
         meshesDeduplicated: 0,
         accessorsDeduplicated: 0,
-        bufferViewsDeduplicated: 0
+        bufferViewsDeduplicated: 0,
+        imagesDeduplicated: 0
     };
 
     /**
@@ -74,7 +208,20 @@ export class Writer {
             skipUnusedUvs: !!options.skipUnusedUvs,
             center: !!options.center,
             log: (options && options.log) || function (msg: string) {},
-            filter: options && options.filter || ((dbid: number, fragid: number) => true)
+            filter: options && options.filter || ((dbid: number, fragid: number) => true),
+            binary: !!options.binary,
+            draco: options.draco ?? false,
+            quantize: !!options.quantize,
+            meshopt: !!options.meshopt,
+            instancing: !!options.instancing,
+            propertyDb: options.propertyDb ?? null,
+            properties: options.properties ?? [],
+            hierarchy: !!options.hierarchy,
+            mergeByMaterial: !!options.mergeByMaterial,
+            groupBy: options.groupBy ?? null,
+            materialExtensions: !!options.materialExtensions,
+            maxTextureSize: options.maxTextureSize ?? 0,
+            textureBudget: options.textureBudget ?? 0
         };
 
         // All these properties will be properly initialized in the 'reset' call
@@ -86,13 +233,25 @@ export class Writer {
     }
 
     /**
-     * Outputs scene into glTF.
+     * Outputs scene into glTF (as _output.gltf_ with external buffers and images),
+     * or into a single binary glTF (as _output.glb_) when the `binary` option is enabled.
+     * When the `groupBy` option is set, each group of objects is output into a separate subfolder instead.
      * @async
      * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
      * @param {string} outputDir Path to output folder.
      */
     async write(imf: IMF.IScene, outputDir: string) {
+        if (this.options.groupBy) {
+            await this.writeGroups(imf, outputDir);
+            return;
+        }
         this.reset(outputDir);
+        if (this.options.draco && !this.dracoEncoder) {
+            this.dracoEncoder = await DracoEncoder.Create(this.options.draco === true ? {} : this.options.draco);
+        }
+        if (this.options.meshopt) {
+            await MeshoptEncoder.ready;
+        }
         const scene = this.createScene(imf);
         const scenes = this.manifest.scenes as gltf.Scene[];
         scenes.push(scene);
@@ -106,6 +265,9 @@ export class Writer {
             this.bufferStream = null;
             this.bufferSize = 0;
         }
+        if (this.meshoptFallbackViews.length > 0) {
+            this.addMeshoptFallbackBuffer();
+        }
 
         await Promise.all(this.pendingTasks);
 
@@ -114,12 +276,92 @@ export class Writer {
             delete this.manifest.textures;
         if (this.manifest.images && this.manifest.images.length === 0)
             delete this.manifest.images;
-
-        const gltfPath = path.join(this.baseDir, 'output.gltf');
-        this.serializeManifest(this.manifest, gltfPath);
+        if (this.manifest.samplers && this.manifest.samplers.length === 0)
+            delete this.manifest.samplers;
+
+        let outputPath: string;
+        if (this.options.binary) {
+            outputPath = path.join(this.baseDir, 'output.glb');
+            this.serializeBinary(this.manifest, Buffer.concat(this.binaryChunks), outputPath);
+            this.binaryChunks = [];
+        } else {
+            outputPath = path.join(this.baseDir, 'output.gltf');
+            this.serializeManifest(this.manifest, outputPath);
+        }
         this.options.log(`Closing gltf output: done`);
         this.options.log(`Stats: ${JSON.stringify(this.stats)}`);
-        await this.postprocess(imf, gltfPath);
+        await this.postprocess(imf, outputPath);
+    }
+
+    /**
+     * Splits the scene into groups of objects (see the `groupBy` option), outputs each group into a separate subfolder
+     * named after the group value, and writes an index (_groups.json_) with group values, paths to their glTF files, and their dbIDs.
+     * Objects without any group value are output into the _\_ungrouped_ subfolder.
+     * @async
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {string} outputDir Path to output folder.
+     */
+    protected async writeGroups(imf: IMF.IScene, outputDir: string) {
+        const { groupBy, filter } = this.options;
+        let getGroup: (dbid: number) => string | undefined;
+        if (typeof groupBy === 'function') {
+            getGroup = groupBy;
+        } else {
+            const propertyDb = this.options.propertyDb;
+            if (!propertyDb) {
+                throw new Error('Grouping objects by a property requires the property database (see the `propertyDb` option).');
+            }
+            getGroup = (dbid: number) => {
+                const value = propertyDb.findProperty(dbid, groupBy as string);
+                return value === undefined || value === null || value === '' ? undefined : String(value);
+            };
+        }
+
+        const objectGroups = new Map<number, string | undefined>(); // Group values indexed by dbIDs
+        const groups = new Map<string | undefined, Set<number>>(); // IDs of objects in each group, indexed by group values
+        for (let i = 0, len = imf.getNodeCount(); i < len; i++) {
+            const fragment = imf.getNode(i);
+            if (fragment.kind !== IMF.NodeKind.Object || !filter(fragment.dbid, i)) {
+                continue;
+            }
+            if (!objectGroups.has(fragment.dbid)) {
+                const value = getGroup(fragment.dbid);
+                objectGroups.set(fragment.dbid, value);
+                const dbids = groups.get(value);
+                if (dbids) {
+                    dbids.add(fragment.dbid);
+                } else {
+                    groups.set(value, new Set([fragment.dbid]));
+                }
+            }
+        }
+
+        const index: { value: string | null, path: string, dbids: number[] }[] = [];
+        const folders = new Set<string>();
+        for (const [value, dbids] of groups) {
+            // Group values are sanitized to get valid (and unique) folder names
+            const baseFolder = value === undefined ? '_ungrouped' : (value.replace(/[^\w.-]+/g, '_') || '_');
+            let folder = baseFolder;
+            for (let i = 1; folders.has(folder.toLowerCase()); i++) {
+                folder = `${baseFolder}_${i}`;
+            }
+            folders.add(folder.toLowerCase());
+
+            this.options.log(`Writing group ${value ?? '(ungrouped)'}...`);
+            const writer = new Writer({
+                ...this.options,
+                groupBy: null,
+                filter: (dbid: number, fragid: number) => dbids.has(dbid) && filter(dbid, fragid)
+            });
+            await writer.write(imf, path.join(outputDir, folder));
+            index.push({
+                value: value ?? null,
+                path: `${folder}/${this.options.binary ? 'output.glb' : 'output.gltf'}`,
+                dbids: Array.from(dbids)
+            });
+        }
+        fse.ensureDirSync(outputDir);
+        fse.writeFileSync(path.join(outputDir, 'groups.json'), JSON.stringify({ groups: index }, null, 4));
     }
 
     protected reset(outputDir: string) {
@@ -130,9 +372,6 @@ export class Writer {
                 generator: 'svf-utils',
                 copyright: '2025 (c) Autodesk'
             },
-            extensionsUsed: [
-                "KHR_texture_transform"
-            ],
             buffers: [],
             bufferViews: [],
             accessors: [],
@@ -142,21 +381,33 @@ export class Writer {
             scenes: [],
             textures: [],
             images: [],
+            samplers: [],
             scene: 0
         };
         this.bufferStream = null;
         this.bufferSize = 0;
+        this.binaryChunks = [];
         this.bufferViewCache.clear();
         this.meshHashes = new Map<string, number>();
         this.bufferViewHashes = new Map<string, number>();
         this.accessorHashes = new Map<string, number>();
+        this.dracoPrimitiveCache.clear();
+        this.positionDequantization.clear();
+        this.meshoptFallbackViews = [];
+        this.meshoptFallbackSize = 0;
+        this.featureIds.clear();
         this.pendingTasks = [];
         this.activeSvfMaterials = [];
+        this.unlitMaterials = [];
+        this.imageUris.clear();
+        this.imageHashes.clear();
+        this.pendingImages = [];
         this.stats = {
             materialsDeduplicated: 0,
             meshesDeduplicated: 0,
             accessorsDeduplicated: 0,
-            bufferViewsDeduplicated: 0
+            bufferViewsDeduplicated: 0,
+            imagesDeduplicated: 0
         };
     }
 
@@ -166,6 +417,41 @@ export class Writer {
         fse.writeFileSync(outputPath, JSON.stringify(manifest, null, 4));
     }
 
+    /**
+     * Serializes the manifest and the binary buffer into a GLB container
+     * (see https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html#binary-gltf-layout).
+     * @param {gltf.GlTf} manifest glTF manifest.
+     * @param {Buffer} binary Content of the only (embedded) buffer, or an empty buffer if there's no binary data.
+     * @param {string} outputPath Path to the output *.glb file.
+     */
+    protected serializeBinary(manifest: gltf.GlTf, binary: Buffer, outputPath: string) {
+        const json = Buffer.from(JSON.stringify(manifest), 'utf8');
+        const jsonPadding = (4 - json.byteLength % 4) % 4;
+        const binaryPadding = (4 - binary.byteLength % 4) % 4;
+        const jsonChunkLength = json.byteLength + jsonPadding;
+        const binaryChunkLength = binary.byteLength + binaryPadding;
+        const totalLength = 12 + 8 + jsonChunkLength + (binaryChunkLength > 0 ? 8 + binaryChunkLength : 0);
+        if (totalLength > MaxGlbSize) {
+            throw new Error('Output is too large to fit into a GLB container.');
+        }
+
+        const header = Buffer.alloc(12);
+        header.writeUInt32LE(GlbMagic, 0);
+        header.writeUInt32LE(2, 4);
+        header.writeUInt32LE(totalLength, 8);
+        const jsonChunkHeader = Buffer.alloc(8);
+        jsonChunkHeader.writeUInt32LE(jsonChunkLength, 0);
+        jsonChunkHeader.writeUInt32LE(GlbChunkTypeJSON, 4);
+        const parts = [header, jsonChunkHeader, json, Buffer.alloc(jsonPadding, 0x20)];
+        if (binaryChunkLength > 0) {
+            const binaryChunkHeader = Buffer.alloc(8);
+            binaryChunkHeader.writeUInt32LE(binaryChunkLength, 0);
+            binaryChunkHeader.writeUInt32LE(GlbChunkTypeBIN, 4);
+            parts.push(binaryChunkHeader, binary, Buffer.alloc(binaryPadding));
+        }
+        fse.writeFileSync(outputPath, Buffer.concat(parts));
+    }
+
     protected createScene(imf: IMF.IScene): gltf.Scene {
         fse.ensureDirSync(this.baseDir);
 
@@ -186,41 +472,9 @@ export class Writer {
             const front = metadata['world front vector'].XYZ;
             const distanceUnit = metadata['distance unit'].value;
             if (up && front && distanceUnit) {
-                const left = [
-                    up[1] * front[2] - up[2] * front[1],
-                    up[2] * front[0] - up[0] * front[2],
-                    up[0] * front[1] - up[1] * front[0]
-                ];
-
-                if (left[0] * left[0] + left[1] * left[1] + left[2] * left[2] > 0.0) {
-                    let scale = 1.0;
-                    switch (distanceUnit) {
-                        case 'centimeter':
-                        case 'cm':
-                            scale = 0.01;
-                            break;
-                        case 'millimeter':
-                        case 'mm':
-                            scale = 0.001;
-                            break;
-                        case 'foot':
-                        case 'ft':
-                            scale = 0.3048;
-                            break;
-                        case 'inch':
-                        case 'in':
-                            scale = 0.0254;
-                            break;
-                        default:    // "meter" / "m"
-                            scale = 1.0;
-                    }
-
-                    rootNode.matrix = [
-                        left[0] * scale, up[0] * scale, front[0] * scale, 0,
-                        left[1] * scale, up[1] * scale, front[1] * scale, 0,
-                        left[2] * scale, up[2] * scale, front[2] * scale, 0,
-                        0, 0, 0, 1
-                    ];
+                const matrix = createCoordinateSystemMatrix(up, front, getMetersPerUnit(distanceUnit));
+                if (matrix) {
+                    rootNode.matrix = matrix;
                 } else {
                     console.warn('Could not compute world matrix, leaving it as identity...');
                 }
@@ -246,8 +500,28 @@ export class Writer {
         }
 
         const nodeIndices = (xformNode.children as number[]);
+        const fragmentNodes = new Map<number, number[]>(); // IDs of nodes created for fragments, indexed by dbID (used when reconstructing the hierarchy)
+        const outputNode = (node: gltf.Node, dbid?: number) => {
+            // Only output nodes that have a mesh
+            if (node.mesh === undefined) {
+                return;
+            }
+            const nodeID = manifestNodes.push(node) - 1;
+            if (this.outputsHierarchy() && dbid !== undefined) {
+                const nodeIDs = fragmentNodes.get(dbid);
+                if (nodeIDs) {
+                    nodeIDs.push(nodeID);
+                } else {
+                    fragmentNodes.set(dbid, [nodeID]);
+                }
+            } else {
+                nodeIndices.push(nodeID);
+            }
+        };
         this.options.log(`Writing scene nodes...`);
         const { filter } = this.options;
+        const instanceGroups = new Map<string, IMF.IObjectNode[]>(); // Fragments grouped by their geometry and material
+        const mergeGroups = new Map<string, IMF.IObjectNode[]>(); // Fragments with mesh geometry grouped by their material and vertex attributes
         for (let i = 0, len = imf.getNodeCount(); i < len; i++) {
             const fragment = imf.getNode(i);
             // Currently we only support flat lists of objects, no hierarchies
@@ -257,28 +531,84 @@ export class Writer {
             if (!filter(fragment.dbid, i)) {
                 continue;
             }
+            if (this.options.mergeByMaterial && !this.options.ignoreMeshGeometry) {
+                const geometry = imf.getGeometry(fragment.geometry);
+                if (geometry.kind === IMF.GeometryKind.Mesh) {
+                    // Only geometries with the same set of vertex attributes can be merged
+                    const key = `${fragment.material}/${!!geometry.getNormals()}/${!!geometry.getColors()}/${geometry.getUvChannelCount() > 0}`;
+                    const group = mergeGroups.get(key);
+                    if (group) {
+                        group.push(fragment);
+                    } else {
+                        mergeGroups.set(key, [fragment]);
+                    }
+                    continue;
+                }
+            }
+            if (this.options.instancing) {
+                const key = `${fragment.geometry}/${fragment.material}`;
+                const group = instanceGroups.get(key);
+                if (group) {
+                    group.push(fragment);
+                } else {
+                    instanceGroups.set(key, [fragment]);
+                }
+                continue;
+            }
             const material = imf.getMaterial(fragment.material);
             // Only output UVs if there are any textures or if the user specifically asked not to skip unused UVs
-            const outputUvs = hasTextures(material) || !this.options.skipUnusedUvs;
-            const node = this.createNode(fragment, imf, outputUvs);
-            // Only output nodes that have a mesh
-            if (node.mesh !== undefined) {
-                nodeIndices.push(manifestNodes.push(node) - 1);
+            const outputUvs = hasTextures(material, this.options.materialExtensions) || !this.options.skipUnusedUvs;
+            outputNode(this.createNode(fragment, imf, outputUvs), fragment.dbid);
+        }
+        for (const fragments of instanceGroups.values()) {
+            const material = imf.getMaterial(fragments[0].material);
+            const outputUvs = hasTextures(material, this.options.materialExtensions) || !this.options.skipUnusedUvs;
+            // Fragments with transforms that cannot be decomposed (e.g., with shear) are output as separate nodes
+            const instances: { fragment: IMF.IObjectNode, transform: IDecomposedTransform }[] = [];
+            for (const fragment of fragments) {
+                const transform = fragments.length > 1 ? this.computeInstanceTransform(fragment) : null;
+                if (transform) {
+                    instances.push({ fragment, transform });
+                } else {
+                    outputNode(this.createNode(fragment, imf, outputUvs), fragment.dbid);
+                }
+            }
+            if (instances.length > 1) {
+                // Instanced nodes may represent multiple objects, so they are always attached to the root of the scene
+                outputNode(this.createInstancedNode(instances, imf, outputUvs));
+            } else if (instances.length === 1) {
+                outputNode(this.createNode(instances[0].fragment, imf, outputUvs), instances[0].fragment.dbid);
             }
         }
+        for (const fragments of mergeGroups.values()) {
+            const material = imf.getMaterial(fragments[0].material);
+            const outputUvs = hasTextures(material, this.options.materialExtensions) || !this.options.skipUnusedUvs;
+            // Merged nodes may represent multiple objects, so they are always attached to the root of the scene
+            outputNode(this.createMergedNode(fragments, imf, outputUvs));
+        }
+        if (this.outputsHierarchy()) {
+            this.options.log(`Writing object hierarchy...`);
+            nodeIndices.push(...this.createHierarchy(fragmentNodes));
+        }
+
+        if (this.outputsProperties()) {
+            this.options.log(`Writing properties...`);
+            this.createPropertyTable();
+        }
 
         this.options.log(`Writing materials...`);
         if (this.options.deduplicate) {
             const hashes: string[] = [];
-            const newMaterialIndices = new Uint16Array(imf.getMaterialCount());
+            const newMaterialIndices = new Uint16Array(this.activeSvfMaterials.length);
             for (const [i, activeMaterialID] of this.activeSvfMaterials.entries()) {
                 const material = imf.getMaterial(activeMaterialID);
-                const hash = this.computeMaterialHash(material);
+                const unlit = this.unlitMaterials[i];
+                const hash = this.computeMaterialHash(material) + (unlit ? '/unlit' : '');
                 const match = hashes.indexOf(hash);
                 if (match === -1) {
                     // If this is a first occurrence of the hash in the array, output a new material
                     newMaterialIndices[i] = manifestMaterials.length;
-                    manifestMaterials.push(this.createMaterial(material, imf));
+                    manifestMaterials.push(this.createMaterial(material, imf, unlit));
                     hashes.push(hash);
                 } else {
                     // Otherwise skip the material, and record an index to the first match below
@@ -296,13 +626,16 @@ export class Writer {
                 }
             }
         } else {
-            for (const activeMaterialID of this.activeSvfMaterials) {
+            for (const [i, activeMaterialID] of this.activeSvfMaterials.entries()) {
                 const material = imf.getMaterial(activeMaterialID);
-                const mat = this.createMaterial(material, imf);
+                const mat = this.createMaterial(material, imf, this.unlitMaterials[i]);
                 manifestMaterials.push(mat);
             }
         }
 
+        this.options.log(`Writing images...`);
+        this.writeImages();
+
         this.options.log(`Writing scene: done`);
         return scene;
     }
@@ -334,6 +667,116 @@ export class Writer {
             }
         }
 
+        const featureId = this.outputsProperties() ? this.getFeatureId(fragment.dbid) : undefined;
+        const meshID = this.createNodeMesh(fragment, imf, outputUvs, featureId);
+        if (meshID !== undefined) {
+            node.mesh = meshID;
+            const dequantization = this.getMeshDequantization(meshID);
+            if (dequantization) {
+                this.applyDequantization(node, dequantization);
+            }
+        }
+        return node;
+    }
+
+    /**
+     * Creates a single node representing multiple instances of the same geometry and material
+     * using the EXT_mesh_gpu_instancing extension. The dbIDs of individual instances (or their rows
+     * in the property table, if there is one) are stored in the `_FEATURE_ID_0` instance attribute,
+     * as defined by the EXT_instance_features extension.
+     * @param {{ fragment: IMF.IObjectNode, transform: IDecomposedTransform }[]} instances Fragments to output, with their transforms.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {boolean} outputUvs Whether to output texture coordinates.
+     * @returns {gltf.Node} Instanced node.
+     */
+    protected createInstancedNode(instances: { fragment: IMF.IObjectNode, transform: IDecomposedTransform }[], imf: IMF.IScene, outputUvs: boolean): gltf.Node {
+        let node: gltf.Node = {};
+        const meshID = this.createNodeMesh(instances[0].fragment, imf, outputUvs);
+        if (meshID === undefined) {
+            return node;
+        }
+        node.mesh = meshID;
+
+        const count = instances.length;
+        const dequantization = this.getMeshDequantization(meshID);
+        const translations = new Float32Array(count * 3);
+        const rotations = new Float32Array(count * 4);
+        const scales = new Float32Array(count * 3);
+        const featureIds = new Float32Array(count); // Feature IDs can only be stored as floats, unsigned bytes, or unsigned shorts
+        let hasRotation = false, hasScale = false;
+        for (const [i, { fragment, transform }] of instances.entries()) {
+            if (dequantization) {
+                this.applyDequantization(transform, dequantization);
+            }
+            const { translation, rotation, scale } = transform as Required<gltf.Node>;
+            translations.set(translation, i * 3);
+            rotations.set(rotation, i * 4);
+            scales.set(scale, i * 3);
+            featureIds[i] = this.outputsProperties() ? this.getFeatureId(fragment.dbid) : fragment.dbid;
+            hasRotation = hasRotation || rotation[0] !== 0 || rotation[1] !== 0 || rotation[2] !== 0 || rotation[3] !== 1;
+            hasScale = hasScale || scale[0] !== 1 || scale[1] !== 1 || scale[2] !== 1;
+        }
+
+        const attributes: { [name: string]: number } = {
+            TRANSLATION: this.addFloatAccessor(translations, 'VEC3', 3)
+        };
+        if (hasRotation) {
+            attributes.ROTATION = this.addFloatAccessor(rotations, 'VEC4', 4);
+        }
+        if (hasScale) {
+            attributes.SCALE = this.addFloatAccessor(scales, 'VEC3', 3);
+        }
+        attributes._FEATURE_ID_0 = this.addFloatAccessor(featureIds, 'SCALAR', 1);
+        const featureIdSet: { featureCount: number, attribute: number, propertyTable?: number } = { featureCount: new Set(featureIds).size, attribute: 0 };
+        if (this.outputsProperties()) {
+            featureIdSet.propertyTable = 0;
+        }
+        node.extensions = {
+            EXT_mesh_gpu_instancing: {
+                attributes
+            },
+            EXT_instance_features: {
+                featureIds: [featureIdSet]
+            }
+        };
+        // Viewers that do not support instancing would render just a single instance in the wrong place
+        this.useExtension('EXT_mesh_gpu_instancing', true);
+        this.useExtension('EXT_instance_features');
+        return node;
+    }
+
+    protected addFloatAccessor(data: Float32Array, type: string, componentCount: number): number {
+        const bufferView = this.createVertexBufferView(Buffer.from(data.buffer, data.byteOffset, data.byteLength), componentCount * 4);
+        const accessor = this.createAccessor(this.addBufferView(bufferView), 5126, data.length / componentCount, type);
+        return this.addAccessor(accessor);
+    }
+
+    /**
+     * Computes translation, rotation, and scale of a fragment to be output as an instance.
+     * @param {IMF.IObjectNode} fragment Scene fragment.
+     * @returns {IDecomposedTransform | null} Decomposed transform, or null if the fragment's transform cannot be decomposed.
+     */
+    protected computeInstanceTransform(fragment: IMF.IObjectNode): IDecomposedTransform | null {
+        if (fragment.transform?.kind === IMF.TransformKind.Matrix) {
+            return decomposeMatrix(fragment.transform.elements);
+        }
+        const { translation, rotation, scale } = fragment.transform ?? {};
+        return {
+            translation: translation ? [translation.x, translation.y, translation.z] : [0, 0, 0],
+            rotation: rotation ? [rotation.x, rotation.y, rotation.z, rotation.w] : [0, 0, 0, 1],
+            scale: scale ? [scale.x, scale.y, scale.z] : [1, 1, 1]
+        };
+    }
+
+    /**
+     * Outputs the geometry of a fragment as a glTF mesh, and activates the fragment's material.
+     * @param {IMF.IObjectNode} fragment Scene fragment.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {boolean} outputUvs Whether to output texture coordinates.
+     * @param {number} [featureId] Optional feature ID (row of the property table) to assign to all vertices of the mesh.
+     * @returns {number | undefined} Mesh ID, or undefined if there was no geometry to output.
+     */
+    protected createNodeMesh(fragment: IMF.IObjectNode, imf: IMF.IScene, outputUvs: boolean, featureId?: number): number | undefined {
         const geometry = imf.getGeometry(fragment.geometry);
         let mesh: gltf.Mesh | undefined = undefined;
         switch (geometry.kind) {
@@ -351,19 +794,352 @@ export class Writer {
                 break;
         }
         if (mesh && mesh.primitives.length > 0) {
-            let materialID = this.activeSvfMaterials.indexOf(fragment.material);
-            if (materialID === -1) {
-                materialID = this.activeSvfMaterials.length;
-                this.activeSvfMaterials.push(fragment.material);
+            const unlit = this.options.materialExtensions && geometry.kind !== IMF.GeometryKind.Mesh;
+            const materialID = this.activateMaterial(fragment.material, unlit);
+            for (const primitive of mesh.primitives) {
+                primitive.material = materialID;
+            }
+            if (featureId !== undefined) {
+                this.addMeshFeatures(mesh, featureId);
+            }
+            return this.addMesh(mesh);
+        }
+        return undefined;
+    }
+
+    /**
+     * Assigns feature IDs to vertices of a mesh using the EXT_mesh_features extension.
+     * @param {gltf.Mesh} mesh Mesh to update.
+     * @param {number | Float32Array} featureIds Feature ID for all vertices, or individual feature IDs of all vertices
+     * of a single-primitive mesh (rows of the property table if there is one, dbIDs otherwise).
+     */
+    protected addMeshFeatures(mesh: gltf.Mesh, featureIds: number | Float32Array) {
+        const accessors = this.manifest.accessors as gltf.Accessor[];
+        for (const primitive of mesh.primitives) {
+            const vertexCount = accessors[primitive.attributes.POSITION].count;
+            const data = typeof featureIds === 'number' ? new Float32Array(vertexCount).fill(featureIds) : featureIds;
+            // Draco-compressed primitives may already include the feature IDs
+            if (primitive.attributes._FEATURE_ID_0 === undefined) {
+                primitive.attributes._FEATURE_ID_0 = this.addFloatAccessor(data, 'SCALAR', 1);
             }
+            const featureIdSet: { featureCount: number, attribute: number, propertyTable?: number } = { featureCount: new Set(data).size, attribute: 0 };
+            if (this.outputsProperties()) {
+                featureIdSet.propertyTable = 0;
+            }
+            primitive.extensions = {
+                ...primitive.extensions,
+                EXT_mesh_features: {
+                    featureIds: [featureIdSet]
+                }
+            };
+        }
+        this.useExtension('EXT_mesh_features');
+    }
+
+    /**
+     * Bakes transforms of fragments into their mesh geometry, and outputs all of them as a single node with a single mesh.
+     * The dbIDs of individual vertices (or rows in the property table, if there is one) are stored in the `_FEATURE_ID_0`
+     * vertex attribute, as defined by the EXT_mesh_features extension.
+     * @param {IMF.IObjectNode[]} fragments Fragments with mesh geometry, sharing the same material and set of vertex attributes.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {boolean} outputUvs Whether to output texture coordinates.
+     * @returns {gltf.Node} Merged node (without a mesh if there was no geometry to output).
+     */
+    protected createMergedNode(fragments: IMF.IObjectNode[], imf: IMF.IScene, outputUvs: boolean): gltf.Node {
+        const node: gltf.Node = {
+            name: `material_${fragments[0].material}`
+        };
+        const geometries = fragments.map(fragment => imf.getGeometry(fragment.geometry) as IMF.IMeshGeometry);
+        const vertexCount = geometries.reduce((count, geometry) => count + geometry.getVertices().length / 3, 0);
+        const indexCount = geometries.reduce((count, geometry) => count + geometry.getIndices().length, 0);
+        if (indexCount === 0) {
+            return node;
+        }
+        const hasNormals = !!geometries[0].getNormals();
+        const hasColors = !!geometries[0].getColors();
+        const hasUvs = geometries[0].getUvChannelCount() > 0;
+        const indices = vertexCount > 0xffff ? new Uint32Array(indexCount) : new Uint16Array(indexCount);
+        const vertices = new Float32Array(vertexCount * 3);
+        const normals = hasNormals ? new Float32Array(vertexCount * 3) : undefined;
+        const colors = hasColors ? new Float32Array(vertexCount * 4) : undefined;
+        const uvs = hasUvs ? new Float32Array(vertexCount * 2) : undefined;
+        const featureIds = new Float32Array(vertexCount); // Feature IDs can only be stored as floats, unsigned bytes, or unsigned shorts
+
+        let vertexOffset = 0, indexOffset = 0;
+        for (const [i, fragment] of fragments.entries()) {
+            const geometry = geometries[i];
+            const m = getTransformMatrix(fragment.transform);
+            const fragmentVertices = geometry.getVertices();
+            const fragmentVertexCount = fragmentVertices.length / 3;
+            for (let j = 0; j < fragmentVertexCount; j++) {
+                vertices.set(transformPoint(m, fragmentVertices[j * 3], fragmentVertices[j * 3 + 1], fragmentVertices[j * 3 + 2]), (vertexOffset + j) * 3);
+            }
+            const fragmentNormals = geometry.getNormals();
+            if (normals && fragmentNormals) {
+                const n = createNormalMatrix(m);
+                for (let j = 0; j < fragmentVertexCount; j++) {
+                    const x = fragmentNormals[j * 3], y = fragmentNormals[j * 3 + 1], z = fragmentNormals[j * 3 + 2];
+                    const nx = n[0] * x + n[3] * y + n[6] * z;
+                    const ny = n[1] * x + n[4] * y + n[7] * z;
+                    const nz = n[2] * x + n[5] * y + n[8] * z;
+                    const length = Math.hypot(nx, ny, nz) || 1.0;
+                    normals.set([nx / length, ny / length, nz / length], (vertexOffset + j) * 3);
+                }
+            }
+            const fragmentColors = geometry.getColors();
+            if (colors && fragmentColors) {
+                colors.set(fragmentColors, vertexOffset * 4);
+            }
+            if (uvs && geometry.getUvChannelCount() > 0) {
+                uvs.set(geometry.getUvs(0), vertexOffset * 2);
+            }
+            featureIds.fill(this.outputsProperties() ? this.getFeatureId(fragment.dbid) : fragment.dbid, vertexOffset, vertexOffset + fragmentVertexCount);
+
+            // Mirroring transforms flip the orientation of triangles, so their winding needs to be reversed
+            const fragmentIndices = geometry.getIndices();
+            const mirrored = computeDeterminant(m) < 0;
+            for (let j = 0; j < fragmentIndices.length; j += 3) {
+                indices[indexOffset + j] = vertexOffset + fragmentIndices[j];
+                indices[indexOffset + j + 1] = vertexOffset + fragmentIndices[mirrored ? j + 2 : j + 1];
+                indices[indexOffset + j + 2] = vertexOffset + fragmentIndices[mirrored ? j + 1 : j + 2];
+            }
+            vertexOffset += fragmentVertexCount;
+            indexOffset += fragmentIndices.length;
+        }
+
+        const merged: IMF.IMeshGeometry = {
+            kind: IMF.GeometryKind.Mesh,
+            getIndices: () => indices,
+            getVertices: () => vertices,
+            getNormals: () => normals,
+            getColors: () => colors,
+            getUvChannelCount: () => uvs ? 1 : 0,
+            getUvs: (channel: number) => uvs as Float32Array
+        };
+        const mesh = this.createMeshGeometry(merged, imf, outputUvs, featureIds);
+        if (mesh.primitives.length > 0) {
+            const materialID = this.activateMaterial(fragments[0].material);
             for (const primitive of mesh.primitives) {
                 primitive.material = materialID;
             }
+            this.addMeshFeatures(mesh, featureIds);
             node.mesh = this.addMesh(mesh);
+            const dequantization = this.getMeshDequantization(node.mesh);
+            if (dequantization) {
+                this.applyDequantization(node, dequantization);
+            }
         }
         return node;
     }
 
+    /**
+     * Marks an IMF material as used in the output.
+     * @param {IMF.MaterialID} materialID IMF material ID.
+     * @param {boolean} [unlit=false] Whether the material should be output as unlit (using the KHR_materials_unlit extension).
+     * @returns {number} ID of the corresponding glTF material.
+     */
+    protected activateMaterial(materialID: IMF.MaterialID, unlit: boolean = false): number {
+        let id = this.activeSvfMaterials.findIndex((activeMaterialID, i) => activeMaterialID === materialID && this.unlitMaterials[i] === unlit);
+        if (id === -1) {
+            id = this.activeSvfMaterials.length;
+            this.activeSvfMaterials.push(materialID);
+            this.unlitMaterials.push(unlit);
+        }
+        return id;
+    }
+
+    protected outputsHierarchy(): boolean {
+        return !!this.options.propertyDb && this.options.hierarchy;
+    }
+
+    /**
+     * Creates group nodes reflecting the logical hierarchy of objects in the property database,
+     * starting with the root object (dbID 1). Objects without any fragments (in their entire subtree) are skipped.
+     * @param {Map<number, number[]>} fragmentNodes IDs of nodes created for fragments, indexed by dbID.
+     * @returns {number[]} IDs of top-level nodes, i.e., of the root group node, and of all fragment nodes
+     * whose objects could not be found in the hierarchy.
+     */
+    protected createHierarchy(fragmentNodes: Map<number, number[]>): number[] {
+        const propertyDb = this.options.propertyDb as PropDbReader;
+        const manifestNodes = this.manifest.nodes as gltf.Node[];
+        const visited = new Set<number>();
+        const createGroupNode = (dbid: number): number | undefined => {
+            visited.add(dbid);
+            const children: number[] = [...(fragmentNodes.get(dbid) ?? [])];
+            for (const childId of propertyDb.getChildren(dbid)) {
+                if (!visited.has(childId)) {
+                    const childNodeID = createGroupNode(childId);
+                    if (childNodeID !== undefined) {
+                        children.push(childNodeID);
+                    }
+                }
+            }
+            if (children.length === 0) {
+                return undefined;
+            }
+            return manifestNodes.push({ name: propertyDb.getName(dbid) ?? dbid.toString(), children }) - 1;
+        };
+
+        const nodeIndices: number[] = [];
+        const rootNodeID = createGroupNode(1);
+        if (rootNodeID !== undefined) {
+            nodeIndices.push(rootNodeID);
+        }
+        for (const [dbid, nodeIDs] of fragmentNodes) {
+            if (!visited.has(dbid)) {
+                nodeIndices.push(...nodeIDs);
+            }
+        }
+        return nodeIndices;
+    }
+
+    protected outputsProperties(): boolean {
+        return !!this.options.propertyDb && this.options.properties.length > 0;
+    }
+
+    protected getFeatureId(dbid: number): number {
+        let featureId = this.featureIds.get(dbid);
+        if (featureId === undefined) {
+            featureId = this.featureIds.size;
+            this.featureIds.set(dbid, featureId);
+        }
+        return featureId;
+    }
+
+    /**
+     * Outputs selected properties of all objects with assigned feature IDs as a property table
+     * using the EXT_structural_metadata extension. Types of the table columns are derived from
+     * the attribute definitions in the property database.
+     */
+    protected createPropertyTable() {
+        const propertyDb = this.options.propertyDb as PropDbReader;
+        const filters = this.options.properties;
+
+        // Find attributes matching the filters, and generate unique (and valid) IDs for the corresponding class properties
+        const classProperties: { [id: string]: any } = {
+            dbid: { name: 'dbID', type: 'SCALAR', componentType: 'INT32', required: true }
+        };
+        const propertyIds = new Map<string, string>(); // IDs of class properties, indexed by category and name of the corresponding attributes
+        for (const attr of propertyDb.enumerateAttributes()) {
+            const key = `${attr.category}/${attr.name}`;
+            if (propertyIds.has(key) || (attr.category && attr.category.match(/^__\w+__$/))) {
+                continue;
+            }
+            if (!filters.some(filter => (filter.category === undefined || filter.category === attr.category) && (filter.name === undefined || filter.name === attr.name))) {
+                continue;
+            }
+            const baseId = `${attr.category}_${attr.name}`.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^(?=[0-9])/, '_');
+            let id = baseId;
+            for (let i = 1; classProperties[id]; i++) {
+                id = `${baseId}_${i}`;
+            }
+            propertyIds.set(key, id);
+            classProperties[id] = { name: attr.displayName, description: attr.category, ...getPropertyDefinition(attr.dataType) };
+        }
+
+        // Collect property values, with rows of the table corresponding to feature IDs
+        const count = this.featureIds.size;
+        const columns: { [id: string]: any[] } = {};
+        for (const id of Object.keys(classProperties)) {
+            columns[id] = new Array(count);
+        }
+        for (const [dbid, row] of this.featureIds) {
+            columns.dbid[row] = dbid;
+            // Include properties inherited from the object's type and parents (e.g., type properties in Revit models)
+            for (const prop of propertyDb.enumerateInheritedProperties(dbid)) {
+                const id = propertyIds.get(`${prop.category}/${prop.name}`);
+                if (id && columns[id][row] === undefined) {
+                    columns[id][row] = prop.value;
+                }
+            }
+        }
+
+        const tableProperties: { [id: string]: { values: number, stringOffsets?: number } } = {};
+        for (const [id, definition] of Object.entries(classProperties)) {
+            tableProperties[id] = this.createPropertyTableColumn(definition, columns[id]);
+        }
+        this.manifest.extensions = {
+            ...this.manifest.extensions,
+            EXT_structural_metadata: {
+                schema: {
+                    id: 'svf',
+                    classes: {
+                        object: { name: 'Object', properties: classProperties }
+                    }
+                },
+                propertyTables: [{ name: 'properties', class: 'object', count, properties: tableProperties }]
+            }
+        };
+        this.useExtension('EXT_structural_metadata');
+    }
+
+    /**
+     * Outputs values of a single property table column into buffer views (aligned to 8 bytes as required by EXT_structural_metadata).
+     * @param {{ type: string, componentType?: string, noData?: number | string }} definition Definition of the class property.
+     * @param {any[]} values Property values, with undefined values for objects without the property.
+     * @returns {{ values: number, stringOffsets?: number }} IDs of buffer views with the property values (and string offsets).
+     */
+    protected createPropertyTableColumn(definition: { type: string, componentType?: string, noData?: number | string }, values: any[]): { values: number, stringOffsets?: number } {
+        switch (definition.type) {
+            case 'BOOLEAN': {
+                const bits = new Uint8Array(Math.ceil(values.length / 8));
+                values.forEach((value, i) => {
+                    if (value) {
+                        bits[i >> 3] |= 1 << (i & 7);
+                    }
+                });
+                return { values: this.addBufferView(this.createBufferView(Buffer.from(bits.buffer), 8)) };
+            }
+            case 'SCALAR': {
+                const array = definition.componentType === 'INT32' ? new Int32Array(values.length) : new Float64Array(values.length);
+                values.forEach((value, i) => {
+                    const number = (value === undefined || value === null || value === '') ? NaN : Number(value);
+                    array[i] = isNaN(number) ? definition.noData as number : number;
+                });
+                return { values: this.addBufferView(this.createBufferView(Buffer.from(array.buffer), 8)) };
+            }
+            default: {
+                const strings = values.map(value => Buffer.from((value === undefined || value === null) ? '' : String(value), 'utf8'));
+                const offsets = new Uint32Array(strings.length + 1);
+                strings.forEach((str, i) => offsets[i + 1] = offsets[i] + str.byteLength);
+                return {
+                    values: this.addBufferView(this.createBufferView(Buffer.concat(strings), 8)),
+                    stringOffsets: this.addBufferView(this.createBufferView(Buffer.from(offsets.buffer), 8))
+                };
+            }
+        }
+    }
+
+    protected getMeshDequantization(meshID: number): IDequantization | undefined {
+        const mesh = (this.manifest.meshes as gltf.Mesh[])[meshID];
+        return this.positionDequantization.get(mesh.primitives[0].attributes.POSITION);
+    }
+
+    /**
+     * Updates node transform so that it also decodes quantized vertex positions of its mesh.
+     * @param {gltf.Node} node Node referencing a mesh with quantized positions.
+     * @param {IDequantization} dequantization Transform decoding the quantized positions.
+     */
+    protected applyDequantization(node: gltf.Node, dequantization: IDequantization) {
+        const { offset, scale } = dequantization;
+        if (node.matrix) {
+            node.matrix = multiplyMatrices(node.matrix, [
+                scale, 0, 0, 0,
+                0, scale, 0, 0,
+                0, 0, scale, 0,
+                offset[0], offset[1], offset[2], 1
+            ]);
+        } else {
+            // T * R * S * (T' * S') = (T + R * S * T') * R * (S * S')
+            const t = node.translation ?? [0, 0, 0];
+            const r = node.rotation ?? [0, 0, 0, 1];
+            const s = node.scale ?? [1, 1, 1];
+            const o = rotateVector(r, [s[0] * offset[0], s[1] * offset[1], s[2] * offset[2]]);
+            node.translation = [t[0] + o[0], t[1] + o[1], t[2] + o[2]];
+            node.scale = [s[0] * scale, s[1] * scale, s[2] * scale];
+        }
+    }
+
     protected addMesh(mesh: gltf.Mesh): number {
         const meshes = this.manifest.meshes as gltf.Mesh[];
         const hash = this.computeMeshHash(mesh);
@@ -374,13 +1150,13 @@ export class Writer {
             return match;
         } else {
             if (this.options.deduplicate) {
-                this.meshHashes.set(hash, this.meshHashes.size);
+                this.meshHashes.set(hash, meshes.length);
             }
             return meshes.push(mesh) - 1;
         }
     }
 
-    protected createMeshGeometry(geometry: IMF.IMeshGeometry, imf: IMF.IScene, outputUvs: boolean): gltf.Mesh {
+    protected createMeshGeometry(geometry: IMF.IMeshGeometry, imf: IMF.IScene, outputUvs: boolean, featureIds?: Float32Array): gltf.Mesh {
         let mesh: gltf.Mesh = {
             primitives: []
         };
@@ -389,49 +1165,46 @@ export class Writer {
             return mesh;
         }
 
+        if (this.dracoEncoder) {
+            const primitive = this.createDracoPrimitive(geometry, outputUvs, featureIds);
+            if (primitive) {
+                mesh.primitives.push(primitive);
+                return mesh;
+            }
+        }
+
         // Output index buffer
         const indices = geometry.getIndices();
-        const indexBufferView = this.createBufferView(Buffer.from(indices.buffer, indices.byteOffset, indices.byteLength));
+        const indexBufferView = this.createIndexBufferView(Buffer.from(indices.buffer, indices.byteOffset, indices.byteLength), indices.BYTES_PER_ELEMENT, 'TRIANGLES');
         const indexBufferViewID = this.addBufferView(indexBufferView);
-        const indexAccessor = this.createAccessor(indexBufferViewID, 5123, indexBufferView.byteLength / 2, 'SCALAR');
+        const indexAccessor = this.createAccessor(indexBufferViewID, indices instanceof Uint32Array ? 5125 : 5123, indices.length, 'SCALAR');
         const indexAccessorID = this.addAccessor(indexAccessor);
 
         // Output vertex buffer
         const vertices = geometry.getVertices();
-        const positionBounds = this.computeBoundsVec3(vertices); // Compute bounds manually, just in case
-        const positionBufferView = this.createBufferView(Buffer.from(vertices.buffer, vertices.byteOffset, vertices.byteLength));
-        const positionBufferViewID = this.addBufferView(positionBufferView);
-        const positionAccessor = this.createAccessor(positionBufferViewID, 5126, positionBufferView.byteLength / 4 / 3, 'VEC3', positionBounds.min, positionBounds.max/*[fragmesh.min.x, fragmesh.min.y, fragmesh.min.z], [fragmesh.max.x, fragmesh.max.y, fragmesh.max.z]*/);
-        const positionAccessorID = this.addAccessor(positionAccessor);
+        const positionAccessorID = this.addPositionAccessor(vertices);
 
         // Output normals buffer
         let normalAccessorID: number | undefined = undefined;
         const normals = geometry.getNormals();
         if (normals) {
-            const normalBufferView = this.createBufferView(Buffer.from(normals.buffer, normals.byteOffset, normals.byteLength));
-            const normalBufferViewID = this.addBufferView(normalBufferView);
-            const normalAccessor = this.createAccessor(normalBufferViewID, 5126, normalBufferView.byteLength / 4 / 3, 'VEC3');
-            normalAccessorID = this.addAccessor(normalAccessor);
+            normalAccessorID = this.addNormalAccessor(normals);
         }
 
         // Output color buffer
         let colorAccessorID: number | undefined = undefined;
         const colors = geometry.getColors();
         if (colors) {
-            const colorBufferView = this.createBufferView(Buffer.from(colors.buffer, colors.byteOffset, colors.byteLength));
+            const colorBufferView = this.createVertexBufferView(Buffer.from(colors.buffer, colors.byteOffset, colors.byteLength), 16);
             const colorBufferViewID = this.addBufferView(colorBufferView);
-            const colorAccessor = this.createAccessor(colorBufferViewID, 5126, colorBufferView.byteLength / 4 / 4, 'VEC4');
+            const colorAccessor = this.createAccessor(colorBufferViewID, 5126, colors.length / 4, 'VEC4');
             colorAccessorID = this.addAccessor(colorAccessor);
         }
 
         // Output UV buffers
         let uvAccessorID: number | undefined = undefined;
         if (geometry.getUvChannelCount() > 0 && outputUvs) {
-            const uvs = geometry.getUvs(0);
-            const uvBufferView = this.createBufferView(Buffer.from(uvs.buffer, uvs.byteOffset, uvs.byteLength));
-            const uvBufferViewID = this.addBufferView(uvBufferView);
-            const uvAccessor = this.createAccessor(uvBufferViewID, 5126, uvBufferView.byteLength / 4 / 2, 'VEC2');
-            uvAccessorID = this.addAccessor(uvAccessor);
+            uvAccessorID = this.addUvAccessor(geometry.getUvs(0));
         }
 
         mesh.primitives.push({
@@ -455,6 +1228,70 @@ export class Writer {
         return mesh;
     }
 
+    protected createDracoPrimitive(geometry: IMF.IMeshGeometry, outputUvs: boolean, featureIds?: Float32Array): gltf.MeshPrimitive | null {
+        const indices = geometry.getIndices();
+        const vertices = geometry.getVertices();
+        const normals = geometry.getNormals();
+        const colors = geometry.getColors();
+        const uvs = (geometry.getUvChannelCount() > 0 && outputUvs) ? geometry.getUvs(0) : undefined;
+
+        // Identical geometries are only compressed once
+        let hash = '';
+        if (this.options.deduplicate) {
+            hash = this.computeGeometryHash([indices, vertices, normals, colors, uvs, featureIds]);
+            const match = this.dracoPrimitiveCache.get(hash);
+            if (match) {
+                this.options.log(`Skipping a duplicate Draco geometry (${hash})`);
+                return { ...match, attributes: { ...match.attributes } };
+            }
+        }
+
+        const encoded = (this.dracoEncoder as DracoEncoder).encodeMesh(indices, vertices, normals, colors, uvs, featureIds);
+        if (!encoded) {
+            this.options.log(`Could not compress mesh geometry using Draco, falling back to uncompressed data`);
+            return null;
+        }
+        this.useExtension('KHR_draco_mesh_compression', true);
+        const bufferViewID = this.addBufferView(this.createBufferView(Buffer.from(encoded.data.buffer, encoded.data.byteOffset, encoded.data.byteLength)));
+
+        // Accessors of compressed attributes do not reference any buffer views,
+        // so we add them directly instead of deduplicating them via their hashes
+        const accessors = this.manifest.accessors as gltf.Accessor[];
+        const positionBounds = this.computeBoundsVec3(vertices);
+        const indexComponentType = encoded.vertexCount > 0xffff ? 5125 : 5123;
+        const primitive: gltf.MeshPrimitive = {
+            mode: 4,
+            attributes: {
+                POSITION: accessors.push(this.createAccessor(undefined, 5126, encoded.vertexCount, 'VEC3', positionBounds.min, positionBounds.max)) - 1
+            },
+            indices: accessors.push(this.createAccessor(undefined, indexComponentType, encoded.triangleCount * 3, 'SCALAR')) - 1,
+            extensions: {
+                KHR_draco_mesh_compression: {
+                    bufferView: bufferViewID,
+                    attributes: encoded.attributes
+                }
+            }
+        };
+        if (normals) {
+            primitive.attributes.NORMAL = accessors.push(this.createAccessor(undefined, 5126, encoded.vertexCount, 'VEC3')) - 1;
+        }
+        if (colors) {
+            primitive.attributes.COLOR_0 = accessors.push(this.createAccessor(undefined, 5126, encoded.vertexCount, 'VEC4')) - 1;
+        }
+        if (uvs) {
+            primitive.attributes.TEXCOORD_0 = accessors.push(this.createAccessor(undefined, 5126, encoded.vertexCount, 'VEC2')) - 1;
+        }
+        if (featureIds) {
+            // Feature IDs must be compressed together with other attributes, as the encoder may reorder vertices
+            primitive.attributes._FEATURE_ID_0 = accessors.push(this.createAccessor(undefined, 5126, encoded.vertexCount, 'SCALAR')) - 1;
+        }
+
+        if (this.options.deduplicate) {
+            this.dracoPrimitiveCache.set(hash, primitive);
+        }
+        return { ...primitive, attributes: { ...primitive.attributes } };
+    }
+
     protected createLineGeometry(geometry: IMF.ILineGeometry, imf: IMF.IScene): gltf.Mesh {
         let mesh: gltf.Mesh = {
             primitives: []
@@ -466,27 +1303,23 @@ export class Writer {
 
         // Output index buffer
         const indices = geometry.getIndices();
-        const indexBufferView = this.createBufferView(Buffer.from(indices.buffer, indices.byteOffset, indices.byteLength));
+        const indexBufferView = this.createIndexBufferView(Buffer.from(indices.buffer, indices.byteOffset, indices.byteLength), indices.BYTES_PER_ELEMENT, 'INDICES');
         const indexBufferViewID = this.addBufferView(indexBufferView);
-        const indexAccessor = this.createAccessor(indexBufferViewID, 5123, indexBufferView.byteLength / 2, 'SCALAR');
+        const indexAccessor = this.createAccessor(indexBufferViewID, indices instanceof Uint32Array ? 5125 : 5123, indices.length, 'SCALAR');
         const indexAccessorID = this.addAccessor(indexAccessor);
 
         // Output vertex buffer
         const vertices = geometry.getVertices();
-        const positionBounds = this.computeBoundsVec3(vertices);
-        const positionBufferView = this.createBufferView(Buffer.from(vertices.buffer, vertices.byteOffset, vertices.byteLength));
-        const positionBufferViewID = this.addBufferView(positionBufferView);
-        const positionAccessor = this.createAccessor(positionBufferViewID, 5126, positionBufferView.byteLength / 4 / 3, 'VEC3', positionBounds.min, positionBounds.max);
-        const positionAccessorID = this.addAccessor(positionAccessor);
+        const positionAccessorID = this.addPositionAccessor(vertices);
 
         // Output color buffer
         let colorAccessorID: number | undefined = undefined;
         const colors = geometry.getColors();
         if (colors) {
             const normalizedColors = colors.map(c => c / 255.0);
-            const colorBufferView = this.createBufferView(Buffer.from(normalizedColors.buffer, normalizedColors.byteOffset, normalizedColors.byteLength));
+            const colorBufferView = this.createVertexBufferView(Buffer.from(normalizedColors.buffer, normalizedColors.byteOffset, normalizedColors.byteLength), 12);
             const colorBufferViewID = this.addBufferView(colorBufferView);
-            const colorAccessor = this.createAccessor(colorBufferViewID, 5126, colorBufferView.byteLength / 4 / 3, 'VEC3');
+            const colorAccessor = this.createAccessor(colorBufferViewID, 5126, normalizedColors.length / 3, 'VEC3');
             colorAccessorID = this.addAccessor(colorAccessor);
         }
 
@@ -516,19 +1349,15 @@ export class Writer {
 
         // Output vertex buffer
         const vertices = geometry.getVertices();
-        const positionBounds = this.computeBoundsVec3(vertices);
-        const positionBufferView = this.createBufferView(Buffer.from(vertices.buffer, vertices.byteOffset, vertices.byteLength));
-        const positionBufferViewID = this.addBufferView(positionBufferView);
-        const positionAccessor = this.createAccessor(positionBufferViewID, 5126, positionBufferView.byteLength / 4 / 3, 'VEC3', positionBounds.min, positionBounds.max);
-        const positionAccessorID = this.addAccessor(positionAccessor);
+        const positionAccessorID = this.addPositionAccessor(vertices);
 
         // Output color buffer
         let colorAccessorID: number | undefined = undefined;
         const colors = geometry.getColors();
         if (colors) {
-            const colorBufferView = this.createBufferView(Buffer.from(colors.buffer, colors.byteOffset, colors.byteLength));
+            const colorBufferView = this.createVertexBufferView(Buffer.from(colors.buffer, colors.byteOffset, colors.byteLength), 12);
             const colorBufferViewID = this.addBufferView(colorBufferView);
-            const colorAccessor = this.createAccessor(colorBufferViewID, 5126, colorBufferView.byteLength / 4 / 3, 'VEC3');
+            const colorAccessor = this.createAccessor(colorBufferViewID, 5126, colors.length / 3, 'VEC3');
             colorAccessorID = this.addAccessor(colorAccessor);
         }
 
@@ -546,6 +1375,91 @@ export class Writer {
         return mesh;
     }
 
+    /**
+     * Outputs vertex positions, quantized to normalized 16-bit integers when the `quantize` option is enabled.
+     * The transform decoding quantized positions is recorded in {@link positionDequantization}.
+     * @param {Float32Array} vertices Vertex positions (3 floats per vertex).
+     * @returns {number} Accessor ID.
+     */
+    protected addPositionAccessor(vertices: Float32Array): number {
+        const count = vertices.length / 3;
+        const bounds = this.computeBoundsVec3(vertices); // Compute bounds manually, just in case
+        if (!this.options.quantize || count === 0) {
+            const bufferView = this.createVertexBufferView(Buffer.from(vertices.buffer, vertices.byteOffset, vertices.byteLength), 12);
+            const accessor = this.createAccessor(this.addBufferView(bufferView), 5126, count, 'VEC3', bounds.min, bounds.max);
+            return this.addAccessor(accessor);
+        }
+
+        // Use a uniform scale so that the dequantization does not skew vertex normals
+        const { min, max } = bounds;
+        const offset = [0.5 * (min[0] + max[0]), 0.5 * (min[1] + max[1]), 0.5 * (min[2] + max[2])];
+        const scale = 0.5 * Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1.0;
+        const quantized = new Int16Array(count * 4); // Each vertex is padded to 8 bytes to keep the attribute aligned
+        for (let i = 0; i < count; i++) {
+            for (let j = 0; j < 3; j++) {
+                quantized[i * 4 + j] = quantizeSnorm((vertices[i * 3 + j] - offset[j]) / scale, 16);
+            }
+        }
+        const quantizedMin = min.map((value, j) => quantizeSnorm((value - offset[j]) / scale, 16));
+        const quantizedMax = max.map((value, j) => quantizeSnorm((value - offset[j]) / scale, 16));
+        const bufferView = this.createVertexBufferView(Buffer.from(quantized.buffer), 8);
+        const accessor = this.createAccessor(this.addBufferView(bufferView), 5122, count, 'VEC3', quantizedMin, quantizedMax);
+        accessor.normalized = true;
+        const accessorID = this.addAccessor(accessor);
+        this.positionDequantization.set(accessorID, { offset, scale });
+        this.useExtension('KHR_mesh_quantization', true);
+        return accessorID;
+    }
+
+    /**
+     * Outputs vertex normals, quantized to normalized 8-bit integers when the `quantize` option is enabled.
+     * @param {Float32Array} normals Vertex normals (3 floats per vertex).
+     * @returns {number} Accessor ID.
+     */
+    protected addNormalAccessor(normals: Float32Array): number {
+        const count = normals.length / 3;
+        if (!this.options.quantize) {
+            const bufferView = this.createVertexBufferView(Buffer.from(normals.buffer, normals.byteOffset, normals.byteLength), 12);
+            return this.addAccessor(this.createAccessor(this.addBufferView(bufferView), 5126, count, 'VEC3'));
+        }
+
+        const quantized = new Int8Array(count * 4); // Each vertex is padded to 4 bytes to keep the attribute aligned
+        for (let i = 0; i < count; i++) {
+            for (let j = 0; j < 3; j++) {
+                quantized[i * 4 + j] = quantizeSnorm(normals[i * 3 + j], 8);
+            }
+        }
+        const bufferView = this.createVertexBufferView(Buffer.from(quantized.buffer), 4);
+        const accessor = this.createAccessor(this.addBufferView(bufferView), 5120, count, 'VEC3');
+        accessor.normalized = true;
+        this.useExtension('KHR_mesh_quantization', true);
+        return this.addAccessor(accessor);
+    }
+
+    /**
+     * Outputs texture coordinates, quantized to normalized 16-bit integers when the `quantize` option is enabled
+     * and all the coordinates are within the <0, 1> range (repeating textures keep the original float values).
+     * @param {Float32Array} uvs Texture coordinates (2 floats per vertex).
+     * @returns {number} Accessor ID.
+     */
+    protected addUvAccessor(uvs: Float32Array): number {
+        const count = uvs.length / 2;
+        if (!this.options.quantize || !uvs.every(uv => uv >= 0.0 && uv <= 1.0)) {
+            const bufferView = this.createVertexBufferView(Buffer.from(uvs.buffer, uvs.byteOffset, uvs.byteLength), 8);
+            return this.addAccessor(this.createAccessor(this.addBufferView(bufferView), 5126, count, 'VEC2'));
+        }
+
+        const quantized = new Uint16Array(count * 2);
+        for (let i = 0; i < quantized.length; i++) {
+            quantized[i] = quantizeUnorm(uvs[i], 16);
+        }
+        const bufferView = this.createVertexBufferView(Buffer.from(quantized.buffer), 4);
+        const accessor = this.createAccessor(this.addBufferView(bufferView), 5123, count, 'VEC2');
+        accessor.normalized = true;
+        this.useExtension('KHR_mesh_quantization', true);
+        return this.addAccessor(accessor);
+    }
+
     protected addBufferView(bufferView: gltf.BufferView): number {
         const bufferViews = this.manifest.bufferViews as gltf.BufferView[];
         const hash = this.computeBufferViewHash(bufferView);
@@ -556,24 +1470,29 @@ export class Writer {
             return match;
         } else {
             if (this.options.deduplicate) {
-                this.bufferViewHashes.set(hash, this.bufferViewHashes.size);
+                this.bufferViewHashes.set(hash, bufferViews.length);
             }
             return bufferViews.push(bufferView) - 1;
         }
     }
 
-    protected createBufferView(data: Buffer): gltf.BufferView {
+    protected createBufferView(data: Buffer, alignment: number = 4): gltf.BufferView {
         const hash = this.computeBufferHash(data);
         const cache = this.bufferViewCache.get(hash);
-        if (this.options.deduplicate && cache) {
+        if (this.options.deduplicate && cache && cache.byteOffset! % alignment === 0) {
             this.options.log(`Skipping a duplicate buffer (${hash})`);
             return cache;
         }
 
         const manifestBuffers = this.manifest.buffers as gltf.Buffer[];
 
-        // Prepare new writable stream if needed
-        if (this.bufferStream === null || this.bufferSize > this.options.maxBufferSize) {
+        if (this.options.binary) {
+            // GLB can only embed a single buffer, so all the data goes into buffer #0 regardless of its size
+            if (manifestBuffers.length === 0) {
+                manifestBuffers.push({ byteLength: 0 });
+            }
+        } else if (this.bufferStream === null || this.bufferSize > this.options.maxBufferSize) {
+            // Prepare new writable stream if needed
             if (this.bufferStream) {
                 const stream = this.bufferStream as fse.WriteStream;
                 this.pendingTasks.push(new Promise((resolve, reject) => {
@@ -591,8 +1510,13 @@ export class Writer {
 
         const bufferID = manifestBuffers.length - 1;
         const buffer = manifestBuffers[bufferID];
-        this.bufferStream.write(data);
-        this.bufferSize += data.byteLength;
+        if (buffer.byteLength % alignment !== 0) {
+            // The data is always padded to 4-byte multiples, so this is only needed for larger alignments
+            const pad = alignment - buffer.byteLength % alignment;
+            this.writeBufferData(new Uint8Array(pad));
+            buffer.byteLength += pad;
+        }
+        this.writeBufferData(data);
         const bufferView = {
             buffer: bufferID,
             byteOffset: buffer.byteLength,
@@ -602,8 +1526,7 @@ export class Writer {
         if (buffer.byteLength % 4 !== 0) {
             // Pad to 4-byte multiples
             const pad = 4 - buffer.byteLength % 4;
-            this.bufferStream.write(new Uint8Array(pad));
-            this.bufferSize += pad;
+            this.writeBufferData(new Uint8Array(pad));
             buffer.byteLength += pad;
         }
 
@@ -614,6 +1537,107 @@ export class Writer {
         return bufferView;
     }
 
+    /**
+     * Creates buffer view for vertex attribute data, compressed using EXT_meshopt_compression if enabled.
+     * @param {Buffer} data Vertex attribute data.
+     * @param {number} byteStride Size of a single vertex (in bytes), including padding.
+     */
+    protected createVertexBufferView(data: Buffer, byteStride: number): gltf.BufferView {
+        if (this.options.meshopt) {
+            return this.createMeshoptBufferView(data, byteStride, 'ATTRIBUTES');
+        }
+        return { ...this.createBufferView(data), byteStride };
+    }
+
+    /**
+     * Creates buffer view for index data, compressed using EXT_meshopt_compression if enabled.
+     * @param {Buffer} data Index data.
+     * @param {number} indexSize Size of a single index (in bytes).
+     * @param {MeshoptMode} mode Compression mode ('TRIANGLES' for triangle lists, 'INDICES' for other primitives).
+     */
+    protected createIndexBufferView(data: Buffer, indexSize: number, mode: MeshoptMode): gltf.BufferView {
+        if (this.options.meshopt) {
+            return this.createMeshoptBufferView(data, indexSize, mode);
+        }
+        return this.createBufferView(data);
+    }
+
+    /**
+     * Compresses data using meshoptimizer, and creates a buffer view for it as specified by the EXT_meshopt_compression
+     * extension, i.e., with the compressed data stored in the regular buffers, and the view itself pointing to
+     * a fallback buffer (without any actual data) which is added to the manifest in {@link addMeshoptFallbackBuffer}.
+     * @param {Buffer} data Uncompressed data.
+     * @param {number} byteStride Size of a single element (in bytes).
+     * @param {MeshoptMode} mode Compression mode.
+     */
+    protected createMeshoptBufferView(data: Buffer, byteStride: number, mode: MeshoptMode): gltf.BufferView {
+        const hash = `${this.computeBufferHash(data)}/${byteStride}/${mode}`;
+        const cache = this.bufferViewCache.get(hash);
+        if (this.options.deduplicate && cache) {
+            this.options.log(`Skipping a duplicate buffer (${hash})`);
+            return cache;
+        }
+
+        const count = data.byteLength / byteStride;
+        const encoded = MeshoptEncoder.encodeGltfBuffer(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), count, byteStride, mode);
+        const compressedBufferView = this.createBufferView(Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength));
+        this.useExtension('EXT_meshopt_compression', true);
+        const bufferView: gltf.BufferView = {
+            buffer: -1, // ID of the fallback buffer is only known after all other buffers have been created
+            byteOffset: this.meshoptFallbackSize,
+            byteLength: data.byteLength,
+            extensions: {
+                EXT_meshopt_compression: {
+                    buffer: compressedBufferView.buffer,
+                    byteOffset: compressedBufferView.byteOffset,
+                    byteLength: compressedBufferView.byteLength,
+                    byteStride,
+                    count,
+                    mode
+                }
+            }
+        };
+        if (mode === 'ATTRIBUTES') {
+            bufferView.byteStride = byteStride;
+        }
+        this.meshoptFallbackViews.push(bufferView);
+        this.meshoptFallbackSize += data.byteLength + (4 - data.byteLength % 4) % 4;
+
+        if (this.options.deduplicate) {
+            this.bufferViewCache.set(hash, bufferView);
+        }
+
+        return bufferView;
+    }
+
+    /**
+     * Adds the fallback buffer required by the EXT_meshopt_compression extension, and points all compressed buffer views to it.
+     * The buffer is added after all the other buffers so that (in GLB) the first buffer is still the embedded one.
+     */
+    protected addMeshoptFallbackBuffer() {
+        const manifestBuffers = this.manifest.buffers as gltf.Buffer[];
+        const bufferID = manifestBuffers.push({
+            byteLength: this.meshoptFallbackSize,
+            extensions: {
+                EXT_meshopt_compression: {
+                    fallback: true
+                }
+            }
+        }) - 1;
+        for (const bufferView of this.meshoptFallbackViews) {
+            bufferView.buffer = bufferID;
+        }
+    }
+
+    protected writeBufferData(data: Buffer | Uint8Array) {
+        if (this.options.binary) {
+            this.binaryChunks.push(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+        } else {
+            (this.bufferStream as fse.WriteStream).write(data);
+        }
+        this.bufferSize += data.byteLength;
+    }
+
     protected addAccessor(accessor: gltf.Accessor): number {
         const accessors = this.manifest.accessors as gltf.Accessor[];
         const hash = this.computeAccessorHash(accessor);
@@ -624,20 +1648,24 @@ export class Writer {
             return match;
         } else {
             if (this.options.deduplicate) {
-                this.accessorHashes.set(hash, this.accessorHashes.size);
+                // Draco accessors are added directly to the manifest, so the hashes must store actual indices
+                this.accessorHashes.set(hash, accessors.length);
             }
             return accessors.push(accessor) - 1;
         }
     }
 
-    protected createAccessor(bufferViewID: number, componentType: number, count: number, type: string, min?: number[], max?: number[]): gltf.Accessor {
+    protected createAccessor(bufferViewID: number | undefined, componentType: number, count: number, type: string, min?: number[], max?: number[]): gltf.Accessor {
         const accessor: gltf.Accessor = {
-            bufferView: bufferViewID,
             componentType: componentType,
             count: count,
             type: type
         };
 
+        if (bufferViewID !== undefined) {
+            accessor.bufferView = bufferViewID;
+        }
+
         if (min !== undefined) {
             accessor.min = min.map(Math.fround);
         }
@@ -648,9 +1676,32 @@ export class Writer {
         return accessor;
     }
 
-    protected createMaterial(mat: IMF.Material | null, imf: IMF.IScene): gltf.MaterialPbrMetallicRoughness {
+    /**
+     * Adds an extension to the list of used (and optionally required) extensions of the glTF manifest.
+     * @param {string} name Extension name.
+     * @param {boolean} [required=false] Whether the extension is required to properly load the asset.
+     */
+    protected useExtension(name: string, required: boolean = false) {
+        const extensionsUsed = this.manifest.extensionsUsed = this.manifest.extensionsUsed || [];
+        if (!extensionsUsed.includes(name)) {
+            extensionsUsed.push(name);
+        }
+        if (required) {
+            const extensionsRequired = this.manifest.extensionsRequired = this.manifest.extensionsRequired || [];
+            if (!extensionsRequired.includes(name)) {
+                extensionsRequired.push(name);
+            }
+        }
+    }
+
+    protected createMaterial(mat: IMF.Material | null, imf: IMF.IScene, unlit: boolean = false): gltf.MaterialPbrMetallicRoughness {
         // console.log('writing material', mat)
         if (!mat) {
+            if (unlit) {
+                const material = { pbrMetallicRoughness: { ...DefaultMaterial.pbrMetallicRoughness } };
+                this.addMaterialExtension(material, 'KHR_materials_unlit', {});
+                return material;
+            }
             return DefaultMaterial;
         }
 
@@ -666,64 +1717,361 @@ export class Writer {
             material.alphaMode = 'BLEND';
             material.pbrMetallicRoughness.baseColorFactor[3] = mat.opacity;
         }
+        if (unlit) {
+            // Unlit materials are only used by line and point geometry which has no texture coordinates, so the base color is all we need
+            this.addMaterialExtension(material, 'KHR_materials_unlit', {});
+            return material;
+        }
+        if (mat.emissive && (mat.emissive.x > 0.0 || mat.emissive.y > 0.0 || mat.emissive.z > 0.0)) {
+            const emissive = [mat.emissive.x, mat.emissive.y, mat.emissive.z];
+            const strength = Math.max(...emissive);
+            if (strength > 1.0 && this.options.materialExtensions) {
+                material.emissiveFactor = emissive.map(value => value / strength);
+                this.addMaterialExtension(material, 'KHR_materials_emissive_strength', { emissiveStrength: strength });
+            } else {
+                material.emissiveFactor = emissive.map(value => Math.min(value, 1.0));
+            }
+        }
+        if (this.options.materialExtensions) {
+            if (mat.transmission !== undefined && mat.transmission > 0.0) {
+                // Transmission replaces the fading of transparent surfaces
+                delete material.alphaMode;
+                material.pbrMetallicRoughness.baseColorFactor![3] = 1.0;
+                this.addMaterialExtension(material, 'KHR_materials_transmission', { transmissionFactor: Math.min(mat.transmission, 1.0) });
+            }
+            if (mat.ior !== undefined && mat.ior >= 1.0 && mat.ior !== DefaultIor) {
+                this.addMaterialExtension(material, 'KHR_materials_ior', { ior: mat.ior });
+            }
+            if (mat.specular && mat.metallic < 1.0) {
+                // Scale the specular color so that the reflectance at normal incidence matches the reflectivity of the material
+                // (materials with zero reflectivity, which is also the default value, only output the specular color)
+                const ior = mat.ior !== undefined && mat.ior >= 1.0 ? mat.ior : DefaultIor;
+                const scale = mat.reflectivity ? mat.reflectivity / Math.pow((ior - 1.0) / (ior + 1.0), 2.0) : 1.0;
+                this.addMaterialExtension(material, 'KHR_materials_specular', {
+                    specularColorFactor: [mat.specular.x * scale, mat.specular.y * scale, mat.specular.z * scale]
+                });
+            }
+        }
 
         if (mat.maps) {
             const manifestTextures = this.manifest.textures as gltf.Texture[];
-            if (mat.maps.diffuse) {
+            const textureTransform = computeTextureTransform(mat);
+            const sampler = this.findSampler(mat.repeat?.u ?? true, mat.repeat?.v ?? true);
+            const addTexture = (texture: gltf.Texture): gltf.TextureInfo => {
                 const textureID = manifestTextures.length;
-                manifestTextures.push(this.createTexture(mat.maps.diffuse, imf));
-                material.pbrMetallicRoughness.baseColorTexture = {
+                manifestTextures.push(sampler === undefined ? texture : { ...texture, sampler });
+                const textureInfo: gltf.TextureInfo = {
                     index: textureID,
-                    texCoord: 0,
-                    extensions: {
-                        "KHR_texture_transform": {
-                            scale: [mat.scale?.x, mat.scale?.y]
-                        }
-                    }
+                    texCoord: 0
                 };
+                if (textureTransform) {
+                    this.useExtension('KHR_texture_transform');
+                    textureInfo.extensions = { "KHR_texture_transform": textureTransform };
+                }
+                return textureInfo;
+            };
+
+            // glTF has no separate alpha maps, so they are baked into the alpha channel of the base color texture where possible
+            const alphaTexture = mat.maps.alpha && mat.maps.alpha !== mat.maps.diffuse
+                ? this.createAlphaTexture(mat.maps.diffuse, mat.maps.alpha, imf)
+                : null;
+            if (alphaTexture) {
+                material.pbrMetallicRoughness.baseColorTexture = addTexture(alphaTexture);
+            } else if (mat.maps.diffuse) {
+                material.pbrMetallicRoughness.baseColorTexture = addTexture(this.createTexture(mat.maps.diffuse, imf));
+            }
+            if (mat.maps.alpha && material.pbrMetallicRoughness.baseColorTexture && material.alphaMode !== 'BLEND') {
+                material.alphaMode = 'MASK';
+                material.alphaCutoff = 0.5;
+            }
+
+            if (mat.maps.roughness) {
+                const roughnessTexture = this.createRoughnessTexture(mat.maps.roughness, imf);
+                if (roughnessTexture) {
+                    // The texture values are multiplied by the factor
+                    material.pbrMetallicRoughness.metallicRoughnessTexture = addTexture(roughnessTexture);
+                    material.pbrMetallicRoughness.roughnessFactor = 1.0;
+                }
+            }
+
+            if (mat.maps.normal) {
+                material.normalTexture = addTexture(this.createTexture(mat.maps.normal, imf));
+            } else if (mat.maps.bump) {
+                const normalTexture = this.createBumpNormalTexture(mat.maps.bump, imf);
+                if (normalTexture) {
+                    material.normalTexture = addTexture(normalTexture);
+                }
+            }
+
+            if (mat.maps.specular && material.extensions?.KHR_materials_specular) {
+                material.extensions.KHR_materials_specular.specularColorTexture = addTexture(this.createTexture(mat.maps.specular, imf));
             }
         }
         return material;
     }
 
+    /**
+     * Finds or creates a texture sampler with given wrap modes.
+     * @param {boolean} repeatU Whether textures repeat horizontally (or are clamped to their edges).
+     * @param {boolean} repeatV Whether textures repeat vertically (or are clamped to their edges).
+     * @returns {number | undefined} ID of the sampler, or undefined if the default sampler (repeating in both directions) can be used.
+     */
+    protected findSampler(repeatU: boolean, repeatV: boolean): number | undefined {
+        if (repeatU && repeatV) {
+            return undefined;
+        }
+        const wrapS = repeatU ? 10497 : 33071; // REPEAT or CLAMP_TO_EDGE
+        const wrapT = repeatV ? 10497 : 33071;
+        const manifestSamplers = this.manifest.samplers as gltf.Sampler[];
+        const samplerID = manifestSamplers.findIndex(sampler => sampler.wrapS === wrapS && sampler.wrapT === wrapT);
+        return samplerID === -1 ? manifestSamplers.push({ wrapS, wrapT }) - 1 : samplerID;
+    }
+
+    /**
+     * Adds a material extension, and marks it as used in the manifest.
+     * @param {gltf.Material} material Material to update.
+     * @param {string} name Name of the extension.
+     * @param {object} extension Extension data.
+     */
+    protected addMaterialExtension(material: gltf.Material, name: string, extension: object) {
+        material.extensions = material.extensions || {};
+        material.extensions[name] = extension;
+        this.useExtension(name);
+    }
+
     protected createTexture(uri: string, imf: IMF.IScene): gltf.Texture {
-        const manifestImages = this.manifest.images as gltf.Image[];
-        let imageID = manifestImages.findIndex(image => image.uri === uri);
+        const normalizedUri = normalizeImageUri(uri);
+        const extension = normalizedUri.substr(normalizedUri.lastIndexOf('.'));
+        // glTF only allows PNG and JPEG images, so BMP and GIF images are transcoded to PNG
+        const transcode = extension === '.bmp' || extension === '.gif';
+        const outputUri = transcode ? removeExtension(normalizedUri) + '.png' : normalizedUri;
+        let imageID = this.findImage(outputUri);
         if (imageID === -1) {
-            imageID = manifestImages.length;
-            const normalizedUri = uri.toLowerCase().split(/[\/\\]/).join(path.sep);
-            manifestImages.push({ uri: normalizedUri });
-            const filePath = path.join(this.baseDir, normalizedUri);
-            fse.ensureDirSync(path.dirname(filePath));
-            let imageData = imf.getImage(normalizedUri);
+            // Default to a placeholder image based on the extension
+            let imageData = imf.getImage(normalizedUri) ?? ImagePlaceholder.FromExtension(extension);
             if (!imageData) {
-                // Default to a placeholder image based on the extension
-                switch (normalizedUri.substr(normalizedUri.lastIndexOf('.'))) {
-                    case '.jpg':
-                    case '.jpeg':
-                        imageData = ImagePlaceholder.JPG;
-                        break;
-                    case '.png':
-                        imageData = ImagePlaceholder.PNG;
-                        break;
-                    case '.bmp':
-                        imageData = ImagePlaceholder.BMP;
-                        break;
-                    case '.gif':
-                        imageData = ImagePlaceholder.GIF;
-                        break;
-                    default:
-                        throw new Error(`Unsupported image format for ${normalizedUri}`);
-                }
+                throw new Error(`Unsupported image format for ${normalizedUri}`);
+            }
+            if (transcode) {
+                imageData = this.transcodeToPng(normalizedUri, imageData);
+            }
+            imageID = this.addImage(outputUri, imageData);
+        }
+        return { source: imageID };
+    }
+
+    /**
+     * Converts image to PNG.
+     * @param {string} normalizedUri URI of the image (used for logging).
+     * @param {Buffer} imageData Image file content.
+     * @returns {Buffer} PNG image, or a placeholder PNG image if the input could not be decoded.
+     */
+    protected transcodeToPng(normalizedUri: string, imageData: Buffer): Buffer {
+        try {
+            const image = decodeImage(imageData);
+            if (image) {
+                return encodePng(image);
+            }
+            this.options.log(`Unsupported image format for ${normalizedUri}, using placeholder`);
+        } catch (err) {
+            this.options.log(`Could not decode image ${normalizedUri}, using placeholder: ${err}`);
+        }
+        return ImagePlaceholder.PNG;
+    }
+
+    /**
+     * Creates a texture with a normal map generated from a bump map.
+     * @param {string} uri URI of the bump map.
+     * @param {IMF.IScene} imf Scene providing the image data.
+     * @returns {gltf.Texture | null} New texture, or null if the bump map is missing or cannot be decoded.
+     */
+    protected createBumpNormalTexture(uri: string, imf: IMF.IScene): gltf.Texture | null {
+        const normalizedUri = normalizeImageUri(uri);
+        const normalMapUri = removeExtension(normalizedUri) + '_normal.png';
+        let imageID = this.findImage(normalMapUri);
+        if (imageID === -1) {
+            const bump = this.decodeImage(normalizedUri, imf);
+            if (!bump) {
+                this.options.log(`Could not convert bump map ${normalizedUri} to normal map, skipping`);
+                return null;
             }
-            fse.writeFileSync(filePath, imageData);
+            imageID = this.addImage(normalMapUri, encodePng(convertBumpToNormal(bump)));
         }
         return { source: imageID };
     }
 
+    /**
+     * Creates a metallic-roughness texture from a roughness map.
+     * @param {string} uri URI of the roughness map.
+     * @param {IMF.IScene} imf Scene providing the image data.
+     * @returns {gltf.Texture | null} New texture, or null if the roughness map is missing or cannot be decoded.
+     */
+    protected createRoughnessTexture(uri: string, imf: IMF.IScene): gltf.Texture | null {
+        const normalizedUri = normalizeImageUri(uri);
+        const metallicRoughnessUri = removeExtension(normalizedUri) + '_roughness.png';
+        let imageID = this.findImage(metallicRoughnessUri);
+        if (imageID === -1) {
+            const roughness = this.decodeImage(normalizedUri, imf);
+            if (!roughness) {
+                this.options.log(`Could not convert roughness map ${normalizedUri} to metallic-roughness texture, skipping`);
+                return null;
+            }
+            imageID = this.addImage(metallicRoughnessUri, encodePng(convertRoughnessToMetallicRoughness(roughness)));
+        }
+        return { source: imageID };
+    }
+
+    /**
+     * Creates a texture combining the colors of a diffuse map with the luminance of an alpha map.
+     * @param {string | undefined} diffuseUri URI of the diffuse map (if there is one).
+     * @param {string} alphaUri URI of the alpha map.
+     * @param {IMF.IScene} imf Scene providing the image data.
+     * @returns {gltf.Texture | null} New texture, or null if any of the maps is missing or cannot be decoded.
+     */
+    protected createAlphaTexture(diffuseUri: string | undefined, alphaUri: string, imf: IMF.IScene): gltf.Texture | null {
+        const normalizedAlphaUri = normalizeImageUri(alphaUri);
+        const normalizedDiffuseUri = diffuseUri ? normalizeImageUri(diffuseUri) : undefined;
+        const combinedUri = normalizedDiffuseUri
+            ? `${removeExtension(normalizedDiffuseUri)}_${path.basename(removeExtension(normalizedAlphaUri))}.png`
+            : `${removeExtension(normalizedAlphaUri)}_alpha.png`;
+        let imageID = this.findImage(combinedUri);
+        if (imageID === -1) {
+            const alpha = this.decodeImage(normalizedAlphaUri, imf);
+            const diffuse = normalizedDiffuseUri ? this.decodeImage(normalizedDiffuseUri, imf) : null;
+            if (!alpha || (normalizedDiffuseUri && !diffuse)) {
+                this.options.log(`Could not combine alpha map ${normalizedAlphaUri} with diffuse map, skipping`);
+                return null;
+            }
+            imageID = this.addImage(combinedUri, encodePng(combineWithAlpha(diffuse, alpha)));
+        }
+        return { source: imageID };
+    }
+
+    /**
+     * Decodes image data provided by the scene.
+     * @returns {IRawImage | null} Decoded image, or null if the image is missing or cannot be decoded.
+     */
+    protected decodeImage(normalizedUri: string, imf: IMF.IScene): IRawImage | null {
+        const imageData = imf.getImage(normalizedUri);
+        if (!imageData) {
+            return null;
+        }
+        try {
+            return decodeImage(imageData);
+        } catch (err) {
+            this.options.log(`Could not decode image ${normalizedUri}: ${err}`);
+            return null;
+        }
+    }
+
+    protected findImage(normalizedUri: string): number {
+        return this.imageUris.get(normalizedUri) ?? -1;
+    }
+
+    /**
+     * Adds an image to the manifest, reusing an existing image with identical content if there is one.
+     * The image data itself is only output later, in {@link writeImages}.
+     * @param {string} normalizedUri URI of the image.
+     * @param {Buffer} imageData Image file content.
+     * @returns {number} ID of the glTF image.
+     */
+    protected addImage(normalizedUri: string, imageData: Buffer): number {
+        const manifestImages = this.manifest.images as gltf.Image[];
+        const hash = this.computeBufferHash(imageData);
+        let imageID = this.imageHashes.get(hash);
+        if (imageID === undefined) {
+            imageID = manifestImages.length;
+            if (this.options.binary) {
+                const extension = normalizedUri.substr(normalizedUri.lastIndexOf('.'));
+                manifestImages.push({ name: normalizedUri, mimeType: getImageMimeType(extension) });
+            } else {
+                manifestImages.push({ uri: normalizedUri });
+            }
+            this.imageHashes.set(hash, imageID);
+            this.pendingImages.push({ imageID, data: imageData });
+        } else {
+            this.options.log(`Skipping a duplicate image ${normalizedUri} (hash: ${hash})`);
+            this.stats.imagesDeduplicated++;
+        }
+        this.imageUris.set(normalizedUri, imageID);
+        return imageID;
+    }
+
+    /**
+     * Outputs content of all images added to the manifest, either embedded in the binary buffer,
+     * or as separate files. Images are downscaled first when they exceed the `maxTextureSize` or `textureBudget` limits.
+     */
+    protected writeImages() {
+        const manifestImages = this.manifest.images as gltf.Image[];
+        const { maxTextureSize, textureBudget } = this.options;
+        const limited = maxTextureSize > 0 || textureBudget > 0;
+        const sizes = this.pendingImages.map(({ data }) => limited ? readImageSize(data) : null);
+        const scales = sizes.map(size => size && maxTextureSize > 0 ? Math.min(maxTextureSize / Math.max(size.width, size.height), 1.0) : 1.0);
+        if (textureBudget > 0) {
+            let totalSize = 0;
+            for (const [i, size] of sizes.entries()) {
+                if (size) {
+                    totalSize += Math.floor(size.width * scales[i]) * Math.floor(size.height * scales[i]) * 4;
+                }
+            }
+            if (totalSize > textureBudget) {
+                const budgetScale = Math.sqrt(textureBudget / totalSize);
+                this.options.log(`Total size of images (${totalSize} bytes) exceeds the texture budget, downscaling by ${budgetScale.toFixed(3)}`);
+                for (let i = 0; i < scales.length; i++) {
+                    scales[i] *= budgetScale;
+                }
+            }
+        }
+
+        for (const [i, { imageID, data }] of this.pendingImages.entries()) {
+            const image = manifestImages[imageID];
+            const normalizedUri = (image.uri ?? image.name) as string;
+            let imageData = data;
+            const size = sizes[i];
+            if (size && scales[i] < 1.0) {
+                const width = Math.max(Math.floor(size.width * scales[i]), 1);
+                const height = Math.max(Math.floor(size.height * scales[i]), 1);
+                if (width < size.width || height < size.height) {
+                    imageData = this.downscaleImage(normalizedUri, imageData, width, height);
+                }
+            }
+            if (this.options.binary) {
+                // Embed the image data in the binary buffer
+                image.bufferView = this.addBufferView(this.createBufferView(imageData));
+            } else {
+                const filePath = path.join(this.baseDir, normalizedUri);
+                fse.ensureDirSync(path.dirname(filePath));
+                fse.writeFileSync(filePath, imageData);
+            }
+        }
+        this.pendingImages = [];
+    }
+
+    /**
+     * Downscales image, keeping its original format (JPEG or PNG) so that its URI and MIME type remain valid.
+     * @param {string} normalizedUri URI of the image (used for logging).
+     * @param {Buffer} imageData Image file content.
+     * @param {number} width New width of the image.
+     * @param {number} height New height of the image.
+     * @returns {Buffer} Downscaled image, or the original image if it could not be decoded.
+     */
+    protected downscaleImage(normalizedUri: string, imageData: Buffer, width: number, height: number): Buffer {
+        try {
+            const image = decodeImage(imageData);
+            if (image) {
+                this.options.log(`Downscaling image ${normalizedUri} from ${image.width}x${image.height} to ${width}x${height}`);
+                const resized = resizeImage(image, width, height);
+                return isJpeg(imageData) ? encodeJpeg(resized, JpegQuality) : encodePng(resized);
+            }
+        } catch (err) {
+            this.options.log(`Could not downscale image ${normalizedUri}, keeping original size: ${err}`);
+        }
+        return imageData;
+    }
+
     protected computeMeshHash(mesh: gltf.Mesh): string {
         return mesh.primitives.map(p => {
-            return `${p.mode || ''}/${p.material || ''}/${p.indices}/${p.attributes['POSITION'] || ''}/${p.attributes['NORMAL'] || ''}/${p.attributes['TEXCOORD_0'] || ''}/${p.attributes['COLOR_0'] || ''}`;
+            return `${p.mode || ''}/${p.material || ''}/${p.indices}/${p.attributes['POSITION'] || ''}/${p.attributes['NORMAL'] || ''}/${p.attributes['TEXCOORD_0'] || ''}/${p.attributes['COLOR_0'] || ''}/${p.attributes['_FEATURE_ID_0'] ?? ''}`;
         }).join('/');
     }
 
@@ -741,6 +2089,17 @@ export class Writer {
         return hash.digest('hex');
     }
 
+    protected computeGeometryHash(arrays: (ArrayBufferView | undefined)[]): string {
+        const hash = crypto.createHash('md5');
+        for (const array of arrays) {
+            if (array) {
+                hash.update(new Uint8Array(array.buffer, array.byteOffset, array.byteLength));
+            }
+            hash.update('/');
+        }
+        return hash.digest('hex');
+    }
+
     protected computeMaterialHash(material: IMF.IPhysicalMaterial | null): string {
         if (!material) {
             return 'null';
@@ -1,7 +1,13 @@
 export { Reader as SvfReader } from './svf/reader';
 export { Reader as SVF2Reader } from './svf2/reader';
 export { Downloader as SVF2Downloader } from './svf2/downloader';
+export { DiskCache as SVF2DiskCache } from './svf2/cache';
 export { Downloader as SvfDownloader } from './svf/downloader';
 export { Downloader as F2dDownloader } from './f2d/downloader';
 export { Writer as GltfWriter } from './gltf/writer';
+export { Writer as UsdWriter } from './usd/writer';
+export { Writer as ObjWriter } from './obj/writer';
+export { Writer as StlWriter } from './stl/writer';
+export { Writer as ThreeMfWriter } from './3mf/writer';
+export { Writer as TilesetWriter } from './tiles/writer';
 export { IAuthenticationProvider, BasicAuthenticationProvider, TwoLeggedAuthenticationProvider } from './common/authentication-provider';
\ No newline at end of file
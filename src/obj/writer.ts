@@ -0,0 +1,351 @@
+import * as path from 'path';
+import * as fse from 'fs-extra';
+import { ImagePlaceholder } from '../common/image-placeholders';
+import * as IMF from '../common/intermediate-format';
+import { Matrix4x4, computeDeterminant, createCoordinateSystemMatrix, createNormalMatrix, getTransformMatrix, multiplyMatrices, transformPoint } from '../common/transforms';
+import { getMetersPerUnit } from '../common/units';
+
+export interface IWriterOptions {
+    ignoreLineGeometry?: boolean; /** Don't output line geometry */
+    center?: boolean; /** Move the model to origin. */
+    log?: (msg: string) => void; /** Optional logging function. */
+    filter?: (dbid: number, fragid: number) => boolean;
+}
+
+const MaxChunkLength = 1 << 20; // Approximate number of characters buffered before writing to the output stream
+
+const IdentityMatrix: Matrix4x4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+function formatFloat(value: number): string {
+    const rounded = parseFloat(value.toPrecision(7));
+    return rounded === 0 ? '0' : rounded.toString();
+}
+
+/**
+ * Utility class for serializing parsed 3D content to local file system as Wavefront OBJ (with an MTL material library).
+ *
+ * Fragment transforms are baked into the vertex data, and fragments are grouped by their dbIDs.
+ */
+export class Writer {
+    protected options: Required<IWriterOptions>;
+
+    protected baseDir: string;
+    protected stream: fse.WriteStream | null = null;
+    protected streamError: Error | null = null; // First error reported by the output stream (if any)
+    protected chunk: string[] = [];
+    protected chunkLength = 0;
+    protected vertexCount = 0; // Number of vertices (v) written so far
+    protected uvCount = 0; // Number of texture coordinates (vt) written so far
+    protected normalCount = 0; // Number of normals (vn) written so far
+    protected materials = new Map<IMF.MaterialID, string>(); // Names of materials used in the output, indexed by IMF material IDs
+    protected images = new Set<string>(); // URIs of images that have already been copied to the output folder
+
+    /**
+     * Initializes the writer.
+     * @param {IWriterOptions} [options={}] Additional writer options.
+     */
+    constructor(options: IWriterOptions = {}) {
+        this.options = {
+            ignoreLineGeometry: !!options.ignoreLineGeometry,
+            center: !!options.center,
+            log: (options && options.log) || function (msg: string) {},
+            filter: options && options.filter || ((dbid: number, fragid: number) => true)
+        };
+        this.baseDir = '';
+    }
+
+    /**
+     * Outputs scene into OBJ (as _output.obj_), with materials in _output.mtl_, and textures copied next to them.
+     * @async
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {string} outputDir Path to output folder.
+     */
+    async write(imf: IMF.IScene, outputDir: string) {
+        this.reset(outputDir);
+        fse.ensureDirSync(this.baseDir);
+        this.stream = fse.createWriteStream(path.join(this.baseDir, 'output.obj'));
+        this.stream.on('error', err => { this.streamError = this.streamError ?? err; });
+        this.writeLine('# Generated by svf-utils');
+        this.writeLine('mtllib output.mtl');
+
+        const worldMatrix = this.computeWorldMatrix(imf);
+        // Collect fragments of individual objects so that each object is output as a single group
+        const { filter } = this.options;
+        const objects = new Map<number, number[]>();
+        for (let i = 0, len = imf.getNodeCount(); i < len; i++) {
+            const fragment = imf.getNode(i);
+            // Currently we only support flat lists of objects, no hierarchies
+            if (fragment.kind !== IMF.NodeKind.Object) {
+                continue;
+            }
+            if (!filter(fragment.dbid, i)) {
+                continue;
+            }
+            const fragmentIDs = objects.get(fragment.dbid);
+            if (fragmentIDs) {
+                fragmentIDs.push(i);
+            } else {
+                objects.set(fragment.dbid, [i]);
+            }
+        }
+
+        this.options.log(`Writing scene nodes...`);
+        for (const [dbid, fragmentIDs] of objects) {
+            this.writeLine(`g dbid_${dbid}`);
+            for (const fragmentID of fragmentIDs) {
+                this.writeFragment(imf.getNode(fragmentID) as IMF.IObjectNode, worldMatrix, imf);
+                if (this.chunkLength > MaxChunkLength) {
+                    await this.flush();
+                }
+            }
+        }
+        await this.flush();
+        await new Promise<void>((resolve, reject) => {
+            const stream = this.stream as fse.WriteStream;
+            stream.once('finish', resolve);
+            stream.once('error', reject);
+            stream.end();
+        });
+        this.stream = null;
+
+        this.options.log(`Writing materials...`);
+        await fse.writeFile(path.join(this.baseDir, 'output.mtl'), this.createMaterialLibrary(imf));
+        this.options.log(`Closing obj output: done`);
+    }
+
+    protected reset(outputDir: string) {
+        this.baseDir = outputDir;
+        this.stream = null;
+        this.streamError = null;
+        this.chunk = [];
+        this.chunkLength = 0;
+        this.vertexCount = 0;
+        this.uvCount = 0;
+        this.normalCount = 0;
+        this.materials.clear();
+        this.images.clear();
+    }
+
+    protected writeLine(line: string) {
+        this.chunk.push(line);
+        this.chunkLength += line.length + 1;
+    }
+
+    /**
+     * Writes the buffered lines to the output stream, waiting for the stream to drain if necessary.
+     * @async
+     * @throws Error when the output stream has failed.
+     */
+    protected async flush(): Promise<void> {
+        const stream = this.stream as fse.WriteStream;
+        if (this.streamError) {
+            throw this.streamError;
+        }
+        if (this.chunk.length > 0) {
+            const drained = stream.write(this.chunk.join('\n') + '\n');
+            this.chunk = [];
+            this.chunkLength = 0;
+            if (!drained) {
+                await new Promise<void>((resolve, reject) => {
+                    const onDrain = () => { stream.off('error', onError); resolve(); };
+                    const onError = (err: Error) => { stream.off('drain', onDrain); reject(err); };
+                    stream.once('drain', onDrain);
+                    stream.once('error', onError);
+                });
+            }
+        }
+    }
+
+    /**
+     * Computes the transform applied to all fragments, converting the scene
+     * into a Y-up coordinate system in meters, and optionally moving it to origin.
+     */
+    protected computeWorldMatrix(imf: IMF.IScene): Matrix4x4 {
+        let matrix = IdentityMatrix;
+        const metadata = imf.getMetadata();
+        if (metadata['world up vector'] && metadata['world front vector'] && metadata['distance unit']) {
+            const up = metadata['world up vector'].XYZ;
+            const front = metadata['world front vector'].XYZ;
+            const distanceUnit = metadata['distance unit'].value;
+            if (up && front && distanceUnit) {
+                const coordinateSystemMatrix = createCoordinateSystemMatrix(up, front, getMetersPerUnit(distanceUnit));
+                if (coordinateSystemMatrix) {
+                    matrix = coordinateSystemMatrix;
+                } else {
+                    console.warn('Could not compute world matrix, leaving it as identity...');
+                }
+            }
+        }
+        if (metadata['world bounding box'] && this.options.center) {
+            const boundsMin = metadata['world bounding box'].minXYZ;
+            const boundsMax = metadata['world bounding box'].maxXYZ;
+            if (boundsMin && boundsMax) {
+                matrix = multiplyMatrices(matrix, [
+                    1, 0, 0, 0,
+                    0, 1, 0, 0,
+                    0, 0, 1, 0,
+                    -0.5 * (boundsMin[0] + boundsMax[0]), -0.5 * (boundsMin[1] + boundsMax[1]), -0.5 * (boundsMin[2] + boundsMax[2]), 1
+                ]);
+            }
+        }
+        return matrix;
+    }
+
+    protected writeFragment(fragment: IMF.IObjectNode, worldMatrix: Matrix4x4, imf: IMF.IScene) {
+        const geometry = imf.getGeometry(fragment.geometry);
+        switch (geometry.kind) {
+            case IMF.GeometryKind.Mesh:
+                this.writeMeshGeometry(geometry, fragment, multiplyMatrices(worldMatrix, getTransformMatrix(fragment.transform)), imf);
+                break;
+            case IMF.GeometryKind.Lines:
+                if (!this.options.ignoreLineGeometry) {
+                    this.writeLineGeometry(geometry, fragment, multiplyMatrices(worldMatrix, getTransformMatrix(fragment.transform)), imf);
+                }
+                break;
+            case IMF.GeometryKind.Points:
+                // OBJ point elements are not supported by most consumers, so point geometry is skipped
+                break;
+            case IMF.GeometryKind.Empty:
+                console.warn('Could not find mesh for fragment', fragment);
+                break;
+        }
+    }
+
+    protected writeMeshGeometry(geometry: IMF.IMeshGeometry, fragment: IMF.IObjectNode, matrix: Matrix4x4, imf: IMF.IScene) {
+        const indices = geometry.getIndices();
+        const vertices = geometry.getVertices();
+        if (indices.length === 0 || vertices.length === 0) {
+            return;
+        }
+        this.writeLine(`usemtl ${this.useMaterial(fragment.material, imf)}`);
+
+        for (let i = 0; i < vertices.length; i += 3) {
+            const [x, y, z] = transformPoint(matrix, vertices[i], vertices[i + 1], vertices[i + 2]);
+            this.writeLine(`v ${formatFloat(x)} ${formatFloat(y)} ${formatFloat(z)}`);
+        }
+        const uvs = geometry.getUvChannelCount() > 0 ? geometry.getUvs(0) : undefined;
+        if (uvs) {
+            // IMF uses the glTF convention for texture coordinates (with V pointing down), while OBJ has V pointing up
+            for (let i = 0; i < uvs.length; i += 2) {
+                this.writeLine(`vt ${formatFloat(uvs[i])} ${formatFloat(1.0 - uvs[i + 1])}`);
+            }
+        }
+        const normals = geometry.getNormals();
+        if (normals) {
+            const m = createNormalMatrix(matrix);
+            for (let i = 0; i < normals.length; i += 3) {
+                const nx = normals[i], ny = normals[i + 1], nz = normals[i + 2];
+                const x = m[0] * nx + m[3] * ny + m[6] * nz;
+                const y = m[1] * nx + m[4] * ny + m[7] * nz;
+                const z = m[2] * nx + m[5] * ny + m[8] * nz;
+                const length = Math.hypot(x, y, z) || 1.0;
+                this.writeLine(`vn ${formatFloat(x / length)} ${formatFloat(y / length)} ${formatFloat(z / length)}`);
+            }
+        }
+
+        // Mirroring transforms flip the orientation of triangles, so their winding needs to be reversed
+        const mirrored = computeDeterminant(matrix) < 0;
+        const formatIndex = (index: number) => {
+            const v = this.vertexCount + index + 1;
+            if (uvs && normals) {
+                return `${v}/${this.uvCount + index + 1}/${this.normalCount + index + 1}`;
+            } else if (uvs) {
+                return `${v}/${this.uvCount + index + 1}`;
+            } else if (normals) {
+                return `${v}//${this.normalCount + index + 1}`;
+            } else {
+                return `${v}`;
+            }
+        };
+        for (let i = 0; i < indices.length; i += 3) {
+            const a = formatIndex(indices[i]), b = formatIndex(indices[i + 1]), c = formatIndex(indices[i + 2]);
+            this.writeLine(mirrored ? `f ${a} ${c} ${b}` : `f ${a} ${b} ${c}`);
+        }
+
+        this.vertexCount += vertices.length / 3;
+        this.uvCount += uvs ? uvs.length / 2 : 0;
+        this.normalCount += normals ? normals.length / 3 : 0;
+    }
+
+    protected writeLineGeometry(geometry: IMF.ILineGeometry, fragment: IMF.IObjectNode, matrix: Matrix4x4, imf: IMF.IScene) {
+        const indices = geometry.getIndices();
+        const vertices = geometry.getVertices();
+        if (indices.length === 0 || vertices.length === 0) {
+            return;
+        }
+        this.writeLine(`usemtl ${this.useMaterial(fragment.material, imf)}`);
+        for (let i = 0; i < vertices.length; i += 3) {
+            const [x, y, z] = transformPoint(matrix, vertices[i], vertices[i + 1], vertices[i + 2]);
+            this.writeLine(`v ${formatFloat(x)} ${formatFloat(y)} ${formatFloat(z)}`);
+        }
+        for (let i = 0; i < indices.length; i += 2) {
+            this.writeLine(`l ${this.vertexCount + indices[i] + 1} ${this.vertexCount + indices[i + 1] + 1}`);
+        }
+        this.vertexCount += vertices.length / 3;
+    }
+
+    protected useMaterial(materialID: IMF.MaterialID, imf: IMF.IScene): string {
+        let name = this.materials.get(materialID);
+        if (!name) {
+            name = `material_${materialID}`;
+            this.materials.set(materialID, name);
+        }
+        return name;
+    }
+
+    /**
+     * Generates the content of the MTL library with all materials used in the output.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @returns {string} Content of the MTL file.
+     */
+    protected createMaterialLibrary(imf: IMF.IScene): string {
+        const lines: string[] = ['# Generated by svf-utils'];
+        for (const [materialID, name] of this.materials) {
+            const mat = imf.getMaterial(materialID) as IMF.Material | null;
+            const diffuse = mat ? [mat.diffuse.x, mat.diffuse.y, mat.diffuse.z] : [0.25, 0.25, 0.25];
+            const roughness = mat ? Math.min(Math.max(mat.roughness, 0.0), 1.0) : 0.5;
+            lines.push(
+                '',
+                `newmtl ${name}`,
+                `Kd ${diffuse.map(formatFloat).join(' ')}`,
+                `Ks ${mat && mat.metallic > 0 ? diffuse.map(formatFloat).join(' ') : '0 0 0'}`,
+                `Ns ${formatFloat(1000.0 * (1.0 - roughness) * (1.0 - roughness))}`,
+                `d ${formatFloat(mat && mat.opacity !== undefined ? mat.opacity : 1.0)}`,
+                `illum 2`
+            );
+            if (mat?.maps?.diffuse) {
+                const uri = this.copyImage(mat.maps.diffuse, imf);
+                const scale = [mat.scale?.x ?? 1.0, mat.scale?.y ?? 1.0];
+                if (scale[0] !== 1.0 || scale[1] !== 1.0) {
+                    lines.push(`map_Kd -s ${formatFloat(scale[0])} ${formatFloat(scale[1])} 1 ${uri}`);
+                } else {
+                    lines.push(`map_Kd ${uri}`);
+                }
+            }
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Copies image data for given texture URI into the output folder.
+     * @param {string} uri Texture URI.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @returns {string} Path of the image relative to the MTL file.
+     */
+    protected copyImage(uri: string, imf: IMF.IScene): string {
+        const normalizedUri = uri.toLowerCase().split(/[\/\\]/).join(path.sep);
+        if (!this.images.has(normalizedUri)) {
+            const extension = normalizedUri.substr(normalizedUri.lastIndexOf('.'));
+            // Default to a placeholder image based on the extension
+            const imageData = imf.getImage(normalizedUri) ?? ImagePlaceholder.FromExtension(extension);
+            if (!imageData) {
+                throw new Error(`Unsupported image format for ${normalizedUri}`);
+            }
+            const filePath = path.join(this.baseDir, normalizedUri);
+            fse.ensureDirSync(path.dirname(filePath));
+            fse.writeFileSync(filePath, imageData);
+            this.images.add(normalizedUri);
+        }
+        return normalizedUri.split(path.sep).join('/');
+    }
+}
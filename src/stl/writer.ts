@@ -0,0 +1,176 @@
+import * as path from 'path';
+import * as fse from 'fs-extra';
+import * as IMF from '../common/intermediate-format';
+import { Matrix4x4, computeDeterminant, getTransformMatrix, multiplyMatrices } from '../common/transforms';
+
+export interface IWriterOptions {
+    splitByObject?: boolean; /** Output a separate file for each object (_<dbid>.stl_) instead of a single file for the entire scene (_output.stl_). */
+    center?: boolean; /** Move the model to origin. */
+    log?: (msg: string) => void; /** Optional logging function. */
+    filter?: (dbid: number, fragid: number) => boolean;
+}
+
+const HeaderSize = 80;
+const TriangleSize = 50; // Normal and 3 vertices (12 floats), followed by a 16-bit attribute byte count
+
+/**
+ * Utility class for serializing parsed 3D content to local file system as binary STL.
+ *
+ * Only triangle meshes are output (line and point geometry is ignored), with fragment transforms
+ * baked into the vertex data, and with coordinates in the original units of the scene.
+ */
+export class Writer {
+    protected options: Required<IWriterOptions>;
+
+    /**
+     * Initializes the writer.
+     * @param {IWriterOptions} [options={}] Additional writer options.
+     */
+    constructor(options: IWriterOptions = {}) {
+        this.options = {
+            splitByObject: !!options.splitByObject,
+            center: !!options.center,
+            log: (options && options.log) || function (msg: string) {},
+            filter: options && options.filter || ((dbid: number, fragid: number) => true)
+        };
+    }
+
+    /**
+     * Outputs scene into binary STL, either as a single file (_output.stl_),
+     * or as one file per object (_<dbid>.stl_) when the `splitByObject` option is enabled.
+     * @async
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {string} outputDir Path to output folder.
+     */
+    async write(imf: IMF.IScene, outputDir: string) {
+        fse.ensureDirSync(outputDir);
+        const worldMatrix = this.computeWorldMatrix(imf);
+        const objects = this.collectObjects(imf);
+        this.options.log(`Writing scene nodes...`);
+        if (this.options.splitByObject) {
+            for (const [dbid, fragmentIDs] of objects) {
+                const triangles = this.collectTriangles(fragmentIDs, worldMatrix, imf);
+                if (triangles.length > 0) {
+                    await fse.writeFile(path.join(outputDir, `${dbid}.stl`), this.createStl(triangles, `dbid ${dbid}`));
+                }
+            }
+        } else {
+            const fragmentIDs = Array.from(objects.values()).flat();
+            const triangles = this.collectTriangles(fragmentIDs, worldMatrix, imf);
+            await fse.writeFile(path.join(outputDir, 'output.stl'), this.createStl(triangles, 'svf-utils'));
+        }
+        this.options.log(`Closing stl output: done`);
+    }
+
+    /**
+     * Collects IDs of fragments that should be output, grouped by their dbIDs.
+     */
+    protected collectObjects(imf: IMF.IScene): Map<number, number[]> {
+        const { filter } = this.options;
+        const objects = new Map<number, number[]>();
+        for (let i = 0, len = imf.getNodeCount(); i < len; i++) {
+            const fragment = imf.getNode(i);
+            // Currently we only support flat lists of objects, no hierarchies
+            if (fragment.kind !== IMF.NodeKind.Object) {
+                continue;
+            }
+            if (!filter(fragment.dbid, i)) {
+                continue;
+            }
+            const fragmentIDs = objects.get(fragment.dbid);
+            if (fragmentIDs) {
+                fragmentIDs.push(i);
+            } else {
+                objects.set(fragment.dbid, [i]);
+            }
+        }
+        return objects;
+    }
+
+    protected computeWorldMatrix(imf: IMF.IScene): Matrix4x4 {
+        const metadata = imf.getMetadata();
+        if (metadata['world bounding box'] && this.options.center) {
+            const boundsMin = metadata['world bounding box'].minXYZ;
+            const boundsMax = metadata['world bounding box'].maxXYZ;
+            if (boundsMin && boundsMax) {
+                return [
+                    1, 0, 0, 0,
+                    0, 1, 0, 0,
+                    0, 0, 1, 0,
+                    -0.5 * (boundsMin[0] + boundsMax[0]), -0.5 * (boundsMin[1] + boundsMax[1]), -0.5 * (boundsMin[2] + boundsMax[2]), 1
+                ];
+            }
+        }
+        return getTransformMatrix();
+    }
+
+    /**
+     * Collects triangles of given fragments with their transforms applied.
+     * @returns {Float32Array} Vertex positions, 9 floats per triangle.
+     */
+    protected collectTriangles(fragmentIDs: number[], worldMatrix: Matrix4x4, imf: IMF.IScene): Float32Array {
+        const chunks: Float32Array[] = [];
+        let length = 0;
+        for (const fragmentID of fragmentIDs) {
+            const fragment = imf.getNode(fragmentID) as IMF.IObjectNode;
+            const geometry = imf.getGeometry(fragment.geometry);
+            if (geometry.kind !== IMF.GeometryKind.Mesh) {
+                continue;
+            }
+            const indices = geometry.getIndices();
+            const vertices = geometry.getVertices();
+            const m = multiplyMatrices(worldMatrix, getTransformMatrix(fragment.transform));
+            // Mirroring transforms flip the orientation of triangles, so their winding needs to be reversed
+            const order = computeDeterminant(m) < 0 ? [0, 2, 1] : [0, 1, 2];
+            const chunk = new Float32Array(indices.length * 3);
+            for (let i = 0; i < indices.length; i += 3) {
+                for (let j = 0; j < 3; j++) {
+                    const index = indices[i + order[j]] * 3;
+                    const x = vertices[index], y = vertices[index + 1], z = vertices[index + 2];
+                    chunk[(i + j) * 3] = m[0] * x + m[4] * y + m[8] * z + m[12];
+                    chunk[(i + j) * 3 + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+                    chunk[(i + j) * 3 + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+                }
+            }
+            chunks.push(chunk);
+            length += chunk.length;
+        }
+        const triangles = new Float32Array(length);
+        let offset = 0;
+        for (const chunk of chunks) {
+            triangles.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return triangles;
+    }
+
+    /**
+     * Serializes triangles into binary STL.
+     * @param {Float32Array} triangles Vertex positions, 9 floats per triangle.
+     * @param {string} name Name stored in the STL header.
+     * @returns {Buffer} Content of the STL file.
+     */
+    protected createStl(triangles: Float32Array, name: string): Buffer {
+        const triangleCount = triangles.length / 9;
+        const buffer = Buffer.alloc(HeaderSize + 4 + triangleCount * TriangleSize);
+        // The header must not start with "solid", otherwise some tools would treat the file as ASCII STL
+        buffer.write(`binary stl: ${name}`.substr(0, HeaderSize), 0, 'ascii');
+        buffer.writeUInt32LE(triangleCount, HeaderSize);
+        let offset = HeaderSize + 4;
+        for (let i = 0; i < triangles.length; i += 9) {
+            const ux = triangles[i + 3] - triangles[i], uy = triangles[i + 4] - triangles[i + 1], uz = triangles[i + 5] - triangles[i + 2];
+            const vx = triangles[i + 6] - triangles[i], vy = triangles[i + 7] - triangles[i + 1], vz = triangles[i + 8] - triangles[i + 2];
+            const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+            const length = Math.hypot(nx, ny, nz) || 1.0;
+            buffer.writeFloatLE(nx / length, offset);
+            buffer.writeFloatLE(ny / length, offset + 4);
+            buffer.writeFloatLE(nz / length, offset + 8);
+            for (let j = 0; j < 9; j++) {
+                buffer.writeFloatLE(triangles[i + j], offset + 12 + j * 4);
+            }
+            buffer.writeUInt16LE(0, offset + 48);
+            offset += TriangleSize;
+        }
+        return buffer;
+    }
+}
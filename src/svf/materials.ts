@@ -57,6 +57,14 @@ export function *parseMaterials(buffer: Buffer): Iterable<IMaterial | null> {
                 case 'SimplePhong':
                     yield parseSimplePhongMaterial(group);
                     break;
+                case 'PrismOpaque':
+                case 'PrismMetal':
+                case 'PrismLayered':
+                case 'PrismTransparent':
+                case 'PrismGlazing':
+                case 'PrismWood':
+                    yield parsePrismMaterial(group);
+                    break;
                 default:
                     console.warn('Unsupported material definition', material.definition);
                     yield null;
@@ -78,6 +86,7 @@ function parseSimplePhongMaterial(group: SvfInternal.IMaterialGroup): IMaterial
     result.glossiness = parseScalarProperty(material, 'generic_glossiness', 30);
     result.reflectivity = parseScalarProperty(material, 'generic_reflectivity_at_0deg', 0);
     result.opacity = 1.0 - parseScalarProperty(material, 'generic_transparency', 0);
+    result.ior = parseScalarProperty(material, 'generic_refraction_index', 1.5);
 
     result.metal = parseBooleanProperty(material, 'generic_is_metal', false);
 
@@ -108,6 +117,84 @@ function parseSimplePhongMaterial(group: SvfInternal.IMaterialGroup): IMaterial
     return result;
 }
 
+/**
+ * Parses one of the physically-based "Prism*" material definitions used by Revit and other Autodesk products.
+ * Properties shared by all PRISM materials are prefixed with "surface_", other properties are prefixed
+ * with the name of the definition (e.g., "opaque_albedo" or "metal_f0").
+ */
+function parsePrismMaterial(group: SvfInternal.IMaterialGroup): IMaterial {
+    let result: IMaterial = {};
+    const material = group.materials[group.userassets[0]];
+
+    result.roughness = parseScalarProperty(material, 'surface_roughness', 0.5);
+    result.opacity = 1.0;
+    result.metal = false;
+
+    let colorProp = 'surface_albedo';
+    switch (material.definition) {
+        case 'PrismOpaque':
+            colorProp = 'opaque_albedo';
+            if (parseBooleanProperty(material, 'opaque_emission', false)) {
+                result.emissive = parseColorProperty(material, 'opaque_luminance_modifier', [1, 1, 1, 1]);
+            }
+            break;
+        case 'PrismMetal':
+            colorProp = 'metal_f0';
+            result.metal = true;
+            break;
+        case 'PrismLayered':
+            colorProp = 'layered_diffuse';
+            break;
+        case 'PrismTransparent':
+        case 'PrismGlazing': {
+            colorProp = material.definition === 'PrismTransparent' ? 'transparent_color' : 'glazing_transmission_color';
+            const transmissionColor = parseColorProperty(material, colorProp, [1, 1, 1, 1]);
+            result.transmission = (transmissionColor[0] + transmissionColor[1] + transmissionColor[2]) / 3;
+            result.opacity = computeTransmissionOpacity(transmissionColor);
+            if (material.definition === 'PrismTransparent') {
+                result.ior = parseScalarProperty(material, 'transparent_ior', 1.5);
+            }
+            break;
+        }
+    }
+    result.diffuse = parseColorProperty(material, colorProp, parseColorProperty(material, 'surface_albedo', [0.8, 0.8, 0.8, 1]));
+
+    if (material.textures) {
+        result.maps = {};
+        const diffuse = parseTextureProperty(material, group, colorProp) ?? parseTextureProperty(material, group, 'surface_albedo');
+        if (diffuse) {
+            result.maps.diffuse = diffuse;
+        }
+        const roughness = parseTextureProperty(material, group, 'surface_roughness');
+        if (roughness) {
+            result.maps.roughness = roughness;
+        }
+        const cutout = parseTextureProperty(material, group, 'surface_cutout');
+        if (cutout) {
+            result.maps.alpha = cutout;
+        }
+        const normal = parseTextureProperty(material, group, 'surface_normal');
+        if (normal) {
+            if (isNormalMap(material, group, 'surface_normal')) {
+                result.maps.normal = normal;
+            } else {
+                result.maps.bump = normal;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Estimates opacity of a transparent material from the color of light transmitted through it.
+ * Brighter colors transmit more light, but the opacity is kept above a minimum so that the surface remains visible.
+ */
+function computeTransmissionOpacity(color: number[]): number {
+    const transmission = (color[0] + color[1] + color[2]) / 3;
+    return Math.min(Math.max(1.0 - transmission, 0.1), 1.0);
+}
+
 function parseBooleanProperty(material: SvfInternal.IMaterial, prop: string, defaultValue: boolean): boolean {
     if (material.properties.booleans && prop in material.properties.booleans) {
         return material.properties.booleans[prop];
@@ -137,25 +224,32 @@ function parseTextureProperty(material: SvfInternal.IMaterial, group: SvfInterna
     if (material.textures && prop in material.textures) {
         const connection = material.textures[prop].connections[0];
         const texture = group.materials[connection];
-        if (texture && texture.properties.uris && 'unifiedbitmap_Bitmap' in texture.properties.uris) {
-            const uri = texture.properties.uris['unifiedbitmap_Bitmap'].values[0];
-            // TODO: parse texture transforms aside from scale
+        // Bitmaps are referenced either by "UnifiedBitmap" textures, or by "BumpMap" textures in PRISM materials
+        const uriProp = texture?.properties.uris && ['unifiedbitmap_Bitmap', 'bumpmap_Bitmap'].find(prop => prop in texture.properties.uris!);
+        if (texture && uriProp) {
+            const uri = texture.properties.uris![uriProp].values[0];
             const texture_UScale = texture.properties.scalars?.texture_UScale?.values[0] as number;
             const texture_VScale = texture.properties.scalars?.texture_VScale?.values[0] as number;
-            /*
-            console.log('uri and scale', {
-                uri: uri,
-                u: texture_UScale,
-                v: texture_VScale
-            })
-            */
             if (uri) {
                 return { uri, scale: {
                     texture_UScale,
                     texture_VScale
+                }, offset: {
+                    texture_UOffset: parseScalarProperty(texture, 'texture_UOffset', 0),
+                    texture_VOffset: parseScalarProperty(texture, 'texture_VOffset', 0)
+                }, angle: parseScalarProperty(texture, 'texture_WAngle', 0), repeat: {
+                    texture_URepeat: parseBooleanProperty(texture, 'texture_URepeat', true),
+                    texture_VRepeat: parseBooleanProperty(texture, 'texture_VRepeat', true)
                 } };
             }
         }
     }
     return null;
 }
+
+function isNormalMap(material: SvfInternal.IMaterial, group: SvfInternal.IMaterialGroup, prop: string): boolean {
+    const connection = material.textures?.[prop]?.connections[0];
+    const texture = connection ? group.materials[connection] : undefined;
+    // The "bumpmap_Type" choice is 0 for height maps, and 1 for normal maps
+    return texture?.properties.integers?.bumpmap_Type === 1 || texture?.properties.choicelists?.bumpmap_Type?.values[0] === 1;
+}
@@ -1,4 +1,5 @@
 import { PackFileReader } from '../common/packfile-reader';
+import { decompressLzma } from '../common/lzma';
 import { IMesh, ILines, IPoints, IUVMap } from './schema';
 
 /**
@@ -41,27 +42,374 @@ function parseMeshOCTM(pfr: PackFileReader): IMesh | null {
     switch (method) {
         case 'RAW':
             return parseMeshRAW(pfr);
+        case 'MG1':
+            return parseMeshMG1(pfr);
+        case 'MG2':
+            return parseMeshMG2(pfr);
         default:
             console.warn('Unsupported OpenCTM method', method);
             return null;
     }
 }
 
+/**
+ * Header of OpenCTM meshes, shared by all the compression methods.
+ */
+interface IOpenCTMHeader {
+    vcount: number; // Num of vertices
+    tcount: number; // Num of triangles
+    uvcount: number; // Num of UV maps
+    attrs: number; // Number of custom attributes per vertex
+    flags: number; // Additional flags (e.g., whether normals are present)
+    comment: string;
+}
+
+function parseHeaderOCTM(pfr: PackFileReader): IOpenCTMHeader {
+    const vcount = pfr.getInt32();
+    const tcount = pfr.getInt32();
+    const uvcount = pfr.getInt32();
+    const attrs = pfr.getInt32();
+    const flags = pfr.getInt32();
+    const comment = pfr.getString(pfr.getInt32());
+    return { vcount, tcount, uvcount, attrs, flags, comment };
+}
+
+/**
+ * Reads LZMA-compressed array of 32-bit values used by the MG1 and MG2 methods. Before the compression,
+ * bytes of the values are reordered so that the most significant bytes of all values come first,
+ * and within each group of bytes, the individual components of the elements are stored one after another.
+ * @param {PackFileReader} pfr Reader positioned at the packed data.
+ * @param {number} count Number of elements.
+ * @param {number} size Number of components (32-bit values) of each element.
+ * @returns {Uint8Array} Values in their original order, in little-endian byte order.
+ */
+function readPackedData(pfr: PackFileReader, count: number, size: number): Uint8Array {
+    const packedSize = pfr.getUint32();
+    const properties = pfr.getBytes(5);
+    const interleaved = decompressLzma(properties, pfr.getBytes(packedSize), count * size * 4);
+    const data = new Uint8Array(count * size * 4);
+    const planeSize = count * size;
+    for (let i = 0; i < count; i++) {
+        for (let j = 0; j < size; j++) {
+            const src = i + j * count;
+            const dst = (i * size + j) * 4;
+            data[dst] = interleaved[src + 3 * planeSize];
+            data[dst + 1] = interleaved[src + 2 * planeSize];
+            data[dst + 2] = interleaved[src + planeSize];
+            data[dst + 3] = interleaved[src];
+        }
+    }
+    return data;
+}
+
+function readPackedFloats(pfr: PackFileReader, count: number, size: number): Float32Array {
+    const data = readPackedData(pfr, count, size);
+    return new Float32Array(data.buffer, data.byteOffset, count * size);
+}
+
+/**
+ * Reads packed integers, optionally converting signed integers from their packed representation
+ * (where the lowest bit is used as a sign bit) to two's complement.
+ */
+function readPackedInts(pfr: PackFileReader, count: number, size: number, signed: boolean): Int32Array {
+    const data = readPackedData(pfr, count, size);
+    const ints = new Int32Array(data.buffer, data.byteOffset, count * size);
+    if (signed) {
+        for (let i = 0; i < ints.length; i++) {
+            const value = ints[i];
+            ints[i] = (value & 1) ? -((value + 1) >>> 1) : value >>> 1;
+        }
+    }
+    return ints;
+}
+
+/**
+ * Restores triangle indices from their delta-encoded form used by the MG1 and MG2 methods.
+ */
+function restoreIndices(indices: Int32Array, tcount: number) {
+    for (let i = 0; i < tcount; i++) {
+        const j = i * 3;
+        // The first index is relative to the first index of the previous triangle
+        if (i > 0) {
+            indices[j] += indices[j - 3];
+        }
+        // The third index is relative to the first index
+        indices[j + 2] += indices[j];
+        // The second index is relative to the second index of the previous triangle if both triangles share the first index,
+        // or to the first index otherwise
+        if (i > 0 && indices[j] === indices[j - 3]) {
+            indices[j + 1] += indices[j - 2];
+        } else {
+            indices[j + 1] += indices[j];
+        }
+    }
+}
+
+function expectChunk(pfr: PackFileReader, name: string) {
+    const chunk = pfr.getString(4);
+    console.assert(chunk === name);
+}
+
+/**
+ * Parses mesh compressed using the MG1 method of OpenCTM, where indices are delta-encoded,
+ * and all the data is compressed using LZMA.
+ */
+function parseMeshMG1(pfr: PackFileReader): IMesh {
+    const header = parseHeaderOCTM(pfr);
+    const { vcount, tcount, uvcount, attrs, flags } = header;
+
+    expectChunk(pfr, 'INDX');
+    const indices = readPackedInts(pfr, tcount, 3, false);
+    restoreIndices(indices, tcount);
+
+    expectChunk(pfr, 'VERT');
+    const vertices = readPackedFloats(pfr, vcount * 3, 1);
+
+    let normals: Float32Array | null = null;
+    if (flags & 1) {
+        expectChunk(pfr, 'NORM');
+        normals = readPackedFloats(pfr, vcount, 3);
+    }
+
+    const uvmaps: IUVMap[] = [];
+    for (let i = 0; i < uvcount; i++) {
+        expectChunk(pfr, 'TEXC');
+        const name = pfr.getString(pfr.getInt32());
+        const file = pfr.getString(pfr.getInt32());
+        uvmaps.push({ name, file, uvs: readPackedFloats(pfr, vcount, 2) });
+    }
+
+    let colors: Float32Array | null = null;
+    for (let i = 0; i < attrs; i++) {
+        expectChunk(pfr, 'ATTR');
+        const attrName = pfr.getString(pfr.getInt32());
+        const values = readPackedFloats(pfr, vcount, 4);
+        if (attrName === 'Color') {
+            colors = values;
+        }
+    }
+
+    return createMesh(header, indices, vertices, normals, uvmaps, colors);
+}
+
+/**
+ * Parses mesh compressed using the MG2 method of OpenCTM, where vertices are quantized relative to a spatial grid,
+ * normals are quantized in spherical coordinates relative to smooth normals computed from the mesh,
+ * other vertex attributes are quantized and delta-encoded, and all the data is compressed using LZMA.
+ */
+function parseMeshMG2(pfr: PackFileReader): IMesh {
+    const header = parseHeaderOCTM(pfr);
+    const { vcount, tcount, uvcount, attrs, flags } = header;
+
+    expectChunk(pfr, 'MG2H');
+    const vertexPrecision = pfr.getFloat32();
+    const normalPrecision = pfr.getFloat32();
+    const gridMin = [pfr.getFloat32(), pfr.getFloat32(), pfr.getFloat32()];
+    const gridMax = [pfr.getFloat32(), pfr.getFloat32(), pfr.getFloat32()];
+    const gridDivision = [pfr.getUint32(), pfr.getUint32(), pfr.getUint32()];
+    const gridSize = gridMin.map((min, i) => (gridMax[i] - min) / gridDivision[i]);
+
+    // Vertices are stored relative to the origin of their grid cell, with the X coordinate
+    // delta-encoded for consecutive vertices within the same cell
+    expectChunk(pfr, 'VERT');
+    const intVertices = readPackedInts(pfr, vcount, 3, false);
+    expectChunk(pfr, 'GIDX');
+    const gridIndices = readPackedInts(pfr, vcount, 1, false);
+    for (let i = 1; i < vcount; i++) {
+        gridIndices[i] += gridIndices[i - 1];
+    }
+    const vertices = new Float32Array(vcount * 3);
+    let prevGridIndex = 0x7fffffff, prevDeltaX = 0;
+    for (let i = 0; i < vcount; i++) {
+        const gridIndex = gridIndices[i];
+        const gz = Math.floor(gridIndex / (gridDivision[0] * gridDivision[1]));
+        const gy = Math.floor((gridIndex - gz * gridDivision[0] * gridDivision[1]) / gridDivision[0]);
+        const gx = gridIndex - gz * gridDivision[0] * gridDivision[1] - gy * gridDivision[0];
+        let deltaX = intVertices[i * 3];
+        if (gridIndex === prevGridIndex) {
+            deltaX += prevDeltaX;
+        }
+        vertices[i * 3] = gridMin[0] + gx * gridSize[0] + vertexPrecision * deltaX;
+        vertices[i * 3 + 1] = gridMin[1] + gy * gridSize[1] + vertexPrecision * intVertices[i * 3 + 1];
+        vertices[i * 3 + 2] = gridMin[2] + gz * gridSize[2] + vertexPrecision * intVertices[i * 3 + 2];
+        prevGridIndex = gridIndex;
+        prevDeltaX = deltaX;
+    }
+
+    expectChunk(pfr, 'INDX');
+    const indices = readPackedInts(pfr, tcount, 3, false);
+    restoreIndices(indices, tcount);
+
+    let normals: Float32Array | null = null;
+    if (flags & 1) {
+        expectChunk(pfr, 'NORM');
+        const intNormals = readPackedInts(pfr, vcount, 3, false);
+        normals = restoreNormalsMG2(intNormals, computeSmoothNormals(indices, vertices), normalPrecision);
+    }
+
+    const uvmaps: IUVMap[] = [];
+    for (let i = 0; i < uvcount; i++) {
+        expectChunk(pfr, 'TEXC');
+        const name = pfr.getString(pfr.getInt32());
+        const file = pfr.getString(pfr.getInt32());
+        const precision = pfr.getFloat32();
+        uvmaps.push({ name, file, uvs: restoreAttributeMG2(readPackedInts(pfr, vcount, 2, true), 2, precision) });
+    }
+
+    let colors: Float32Array | null = null;
+    for (let i = 0; i < attrs; i++) {
+        expectChunk(pfr, 'ATTR');
+        const attrName = pfr.getString(pfr.getInt32());
+        const precision = pfr.getFloat32();
+        const values = restoreAttributeMG2(readPackedInts(pfr, vcount, 4, true), 4, precision);
+        if (attrName === 'Color') {
+            colors = values;
+        }
+    }
+
+    return createMesh(header, indices, vertices, normals, uvmaps, colors);
+}
+
+/**
+ * Restores vertex attributes (e.g., texture coordinates) delta-encoded between consecutive vertices.
+ */
+function restoreAttributeMG2(intValues: Int32Array, size: number, precision: number): Float32Array {
+    const values = new Float32Array(intValues.length);
+    for (let j = 0; j < size; j++) {
+        let value = 0;
+        for (let i = j; i < intValues.length; i += size) {
+            value += intValues[i];
+            values[i] = value * precision;
+        }
+    }
+    return values;
+}
+
+/**
+ * Computes normals of vertices by averaging normals of the triangles they belong to.
+ */
+function computeSmoothNormals(indices: Int32Array, vertices: Float32Array): Float32Array {
+    const normals = new Float32Array(vertices.length);
+    for (let i = 0; i < indices.length; i += 3) {
+        const a = indices[i] * 3, b = indices[i + 1] * 3, c = indices[i + 2] * 3;
+        const v1x = vertices[b] - vertices[a], v1y = vertices[b + 1] - vertices[a + 1], v1z = vertices[b + 2] - vertices[a + 2];
+        const v2x = vertices[c] - vertices[a], v2y = vertices[c + 1] - vertices[a + 1], v2z = vertices[c + 2] - vertices[a + 2];
+        let nx = v1y * v2z - v1z * v2y, ny = v1z * v2x - v1x * v2z, nz = v1x * v2y - v1y * v2x;
+        const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+        if (len > 1e-10) {
+            nx /= len;
+            ny /= len;
+            nz /= len;
+        }
+        for (const index of [a, b, c]) {
+            normals[index] += nx;
+            normals[index + 1] += ny;
+            normals[index + 2] += nz;
+        }
+    }
+    for (let i = 0; i < normals.length; i += 3) {
+        const len = Math.sqrt(normals[i] * normals[i] + normals[i + 1] * normals[i + 1] + normals[i + 2] * normals[i + 2]);
+        if (len > 1e-10) {
+            normals[i] /= len;
+            normals[i + 1] /= len;
+            normals[i + 2] /= len;
+        }
+    }
+    return normals;
+}
+
+/**
+ * Restores normals stored as magnitude and spherical coordinates (phi, theta) relative to a coordinate system
+ * around the smooth normal of each vertex.
+ */
+function restoreNormalsMG2(intNormals: Int32Array, smoothNormals: Float32Array, precision: number): Float32Array {
+    const normals = new Float32Array(intNormals.length);
+    for (let i = 0; i < intNormals.length; i += 3) {
+        const magnitude = intNormals[i] * precision;
+        const intPhi = intNormals[i + 1];
+        const phi = intPhi * 0.5 * Math.PI * precision;
+        let theta = 0.0;
+        if (intPhi !== 0) {
+            const thetaScale = intPhi <= 4 ? 0.5 * Math.PI : 2.0 * Math.PI / intPhi;
+            theta = intNormals[i + 2] * thetaScale - Math.PI;
+        }
+        const n2x = Math.sin(phi) * Math.cos(theta);
+        const n2y = Math.sin(phi) * Math.sin(theta);
+        const n2z = Math.cos(phi);
+
+        // Coordinate system with the smooth normal as the Z axis, and with an X axis that changes continuously with the normal
+        const zx = smoothNormals[i], zy = smoothNormals[i + 1], zz = smoothNormals[i + 2];
+        let xx = -zy, xy = zx - zz, xz = zy;
+        const len = Math.sqrt(2.0 * xx * xx + xy * xy);
+        if (len > 1e-20) {
+            xx /= len;
+            xy /= len;
+            xz /= len;
+        }
+        const yx = zy * xz - zz * xy, yy = zz * xx - zx * xz, yz = zx * xy - zy * xx;
+
+        normals[i] = (xx * n2x + yx * n2y + zx * n2z) * magnitude;
+        normals[i + 1] = (xy * n2x + yy * n2y + zy * n2z) * magnitude;
+        normals[i + 2] = (xz * n2x + yz * n2y + zz * n2z) * magnitude;
+    }
+    return normals;
+}
+
+/**
+ * Creates mesh from data decoded by the MG1 or MG2 methods, using the same conventions as {@link parseMeshRAW}
+ * (normals with unit length, texture coordinates flipped vertically, and 16-bit indices whenever possible).
+ */
+function createMesh(header: IOpenCTMHeader, indices: Int32Array, vertices: Float32Array, normals: Float32Array | null, uvmaps: IUVMap[], colors: Float32Array | null): IMesh {
+    const { vcount, tcount, uvcount, attrs, flags, comment } = header;
+    const min = { x: Number.MAX_VALUE, y: Number.MAX_VALUE, z: Number.MAX_VALUE };
+    const max = { x: Number.MIN_VALUE, y: Number.MIN_VALUE, z: Number.MIN_VALUE };
+    for (let i = 0; i < vcount * 3; i += 3) {
+        min.x = Math.min(min.x, vertices[i]);
+        max.x = Math.max(max.x, vertices[i]);
+        min.y = Math.min(min.y, vertices[i + 1]);
+        max.y = Math.max(max.y, vertices[i + 1]);
+        min.z = Math.min(min.z, vertices[i + 2]);
+        max.z = Math.max(max.z, vertices[i + 2]);
+    }
+    if (normals) {
+        for (let i = 0; i < vcount * 3; i += 3) {
+            const len = Math.sqrt(normals[i] * normals[i] + normals[i + 1] * normals[i + 1] + normals[i + 2] * normals[i + 2]);
+            if (len > 0.0 && len !== 1.0) {
+                normals[i] /= len;
+                normals[i + 1] /= len;
+                normals[i + 2] /= len;
+            }
+        }
+    }
+    for (const uvmap of uvmaps) {
+        for (let i = 1; i < uvmap.uvs.length; i += 2) {
+            uvmap.uvs[i] = 1.0 - uvmap.uvs[i];
+        }
+    }
+    const mesh: IMesh = {
+        vcount, tcount, uvcount, attrs, flags, comment, uvmaps,
+        indices: vcount > 0x10000 ? new Uint32Array(indices) : new Uint16Array(indices),
+        vertices, min, max
+    };
+    if (normals) {
+        mesh.normals = normals;
+    }
+    if (colors) {
+        mesh.colors = colors;
+    }
+    return mesh;
+}
+
 function parseMeshRAW(pfr: PackFileReader): IMesh {
     // We will create a single ArrayBuffer to back both the vertex and index buffers.
     // The indices will be places after the vertex information, because we need alignment of 4 bytes.
 
-    const vcount = pfr.getInt32(); // Num of vertices
-    const tcount = pfr.getInt32(); // Num of triangles
-    const uvcount = pfr.getInt32(); // Num of UV maps
-    const attrs = pfr.getInt32(); // Number of custom attributes per vertex
-    const flags = pfr.getInt32(); // Additional flags (e.g., whether normals are present)
-    const comment = pfr.getString(pfr.getInt32());
+    const { vcount, tcount, uvcount, attrs, flags, comment } = parseHeaderOCTM(pfr);
 
     // Indices
     let name = pfr.getString(4);
     console.assert(name === 'INDX');
-    const indices = new Uint16Array(tcount * 3);
+    const indices = vcount > 0x10000 ? new Uint32Array(tcount * 3) : new Uint16Array(tcount * 3);
     for (let i = 0; i < tcount * 3; i++) {
         indices[i] = pfr.getUint32();
     }
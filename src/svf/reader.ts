@@ -118,14 +118,21 @@ export class Scene implements IMF.IScene {
 
     getMaterial(id: number): IMF.Material {
         const _mat = this.svf.materials[id];
+        // Texture transforms are shared by all maps of the material, preferably taken from the diffuse map
+        const _map = _mat?.maps?.diffuse ?? Object.values(_mat?.maps ?? {}).find(map => !!map);
         const mat: IMF.IPhysicalMaterial = {
             kind: IMF.MaterialKind.Physical,
             diffuse: { x: 0, y: 0, z: 0 },
             metallic: _mat?.metal ? 1.0 : 0.0,
             opacity: _mat?.opacity ?? 1.0,
-            roughness: _mat?.glossiness ? ( 20.0/ _mat.glossiness ) : 1.0, // TODO: how to map glossiness to roughness properly?
-            scale: {x: _mat?.maps?.diffuse?.scale.texture_UScale ?? 1.0 , y: _mat?.maps?.diffuse?.scale.texture_VScale ?? 1.0}
+            roughness: _mat?.roughness ?? (_mat?.glossiness ? ( 20.0/ _mat.glossiness ) : 1.0), // TODO: how to map glossiness to roughness properly?
+            scale: {x: _map?.scale.texture_UScale ?? 1.0 , y: _map?.scale.texture_VScale ?? 1.0}
         };
+        if (_map) {
+            mat.offset = { x: _map.offset.texture_UOffset, y: _map.offset.texture_VOffset };
+            mat.rotation = _map.angle * Math.PI / 180.0;
+            mat.repeat = { u: _map.repeat.texture_URepeat, v: _map.repeat.texture_VRepeat };
+        }
         if (_mat?.diffuse) {
             mat.diffuse.x = _mat.diffuse[0];
             mat.diffuse.y = _mat.diffuse[1];
@@ -137,9 +144,29 @@ export class Scene implements IMF.IScene {
             mat.diffuse.z = _mat.specular[2];
             mat.roughness = 60/_mat.glossiness;
         }   
-        if (_mat?.maps?.diffuse) {
-            mat.maps = mat.maps || {};
-            mat.maps.diffuse = _mat.maps.diffuse.uri
+        if (_mat?.emissive) {
+            mat.emissive = { x: _mat.emissive[0], y: _mat.emissive[1], z: _mat.emissive[2] };
+        }
+        if (_mat?.specular && !_mat.metal) {
+            mat.specular = { x: _mat.specular[0], y: _mat.specular[1], z: _mat.specular[2] };
+        }
+        if (_mat?.reflectivity !== undefined) {
+            mat.reflectivity = _mat.reflectivity;
+        }
+        if (_mat?.transmission !== undefined) {
+            mat.transmission = _mat.transmission;
+        }
+        if (_mat?.ior !== undefined) {
+            mat.ior = _mat.ior;
+        }
+        if (_mat?.maps) {
+            mat.maps = {};
+            for (const key of ['diffuse', 'specular', 'normal', 'bump', 'alpha', 'roughness'] as const) {
+                const map = _mat.maps[key];
+                if (map) {
+                    mat.maps[key] = map.uri;
+                }
+            }
         }
         return mat;
     }
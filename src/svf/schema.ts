@@ -109,7 +109,10 @@ export interface IMaterial {
     emissive?: number[];
     glossiness?: number;
     reflectivity?: number;
+    roughness?: number; // Only available in PRISM materials (SimplePhong materials specify glossiness instead)
     opacity?: number;
+    transmission?: number;
+    ior?: number;
     metal?: boolean;
     maps?: {
         diffuse?: IMaterialMap;
@@ -117,6 +120,7 @@ export interface IMaterial {
         normal?: IMaterialMap;
         bump?: IMaterialMap;
         alpha?: IMaterialMap;
+        roughness?: IMaterialMap;
     };
 }
 
@@ -126,6 +130,15 @@ export interface IMaterialMap {
         texture_UScale: number ,
         texture_VScale: number
     }
+    offset: {
+        texture_UOffset: number,
+        texture_VOffset: number
+    }
+    angle: number; // Rotation of the texture (texture_WAngle, in degrees)
+    repeat: {
+        texture_URepeat: boolean,
+        texture_VRepeat: boolean
+    }
 }
 
 /**
@@ -139,7 +152,7 @@ export interface IMesh {
     flags: number;
     comment: string;
     uvmaps: IUVMap[];
-    indices: Uint16Array;
+    indices: Uint16Array | Uint32Array; // 16-bit indices are used whenever all vertices can be addressed by them
     vertices: Float32Array;
     normals?: Float32Array;
     colors?: Float32Array;
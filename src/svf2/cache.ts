@@ -0,0 +1,151 @@
+import * as path from 'node:path';
+import * as fse from 'fs-extra';
+import { AssetType } from './clients/SharedDataWebSocketClient';
+
+/**
+ * Cache of shared SVF2 assets (geometries and materials). Since the assets are addressed
+ * by hashes of their content, cached assets never need to be invalidated.
+ */
+export interface ISharedAssetCache {
+    get(type: AssetType, hash: string): Promise<Buffer | undefined>;
+    set(type: AssetType, hash: string, data: Buffer): Promise<void>;
+}
+
+interface ICacheEntry {
+    key: string;
+    size: number;
+}
+
+/**
+ * Shared asset cache storing the assets as individual files in a local folder,
+ * with an optional size limit enforced by evicting the least recently used assets.
+ * The modification time of the files is used to keep track of their last use,
+ * so the cache can be reused across processes.
+ *
+ * @example
+ * const cache = new DiskCache('path/to/cache', 1 << 30);
+ * const reader = await SVF2Reader.FromDerivativeService(urn, authProvider, undefined, { cache });
+ */
+export class DiskCache implements ISharedAssetCache {
+    protected entries: Map<string, ICacheEntry> | null = null; // Entries in the order of their last use
+    protected totalSize = 0;
+    protected initialization: Promise<void> | null = null;
+    protected tempCounter = 0; // Used to generate unique names of temporary files
+
+    /**
+     * Initializes the cache.
+     * @param {string} dir Path to the cache folder (created if it does not exist).
+     * @param {number} [maxSize] Max total size of the cached assets in bytes, or 0 for unlimited size.
+     */
+    constructor(protected readonly dir: string, protected readonly maxSize: number = 0) {}
+
+    async get(type: AssetType, hash: string): Promise<Buffer | undefined> {
+        const entries = await this.getEntries();
+        const key = this.getKey(type, hash);
+        const entry = entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        try {
+            const data = await fse.readFile(this.getPath(key));
+            await this.touchFile(key);
+            this.touch(entry);
+            return data;
+        } catch (err) {
+            // The file may have been removed by another process
+            this.remove(entry);
+            return undefined;
+        }
+    }
+
+    async set(type: AssetType, hash: string, data: Buffer): Promise<void> {
+        const entries = await this.getEntries();
+        const key = this.getKey(type, hash);
+        const filePath = this.getPath(key);
+        // Temporary files must be unique, so that concurrent writes of the same asset do not interfere
+        const tempPath = `${filePath}.${process.pid}.${this.tempCounter++}.tmp`;
+        await fse.ensureDir(path.dirname(filePath));
+        await fse.writeFile(tempPath, data);
+        await fse.rename(tempPath, filePath);
+        await this.touchFile(key);
+        const existing = entries.get(key);
+        if (existing) {
+            this.remove(existing);
+        }
+        const entry = { key, size: data.byteLength };
+        entries.set(key, entry);
+        this.totalSize += entry.size;
+        await this.evict();
+    }
+
+    protected getKey(type: AssetType, hash: string): string {
+        return `${type}/${hash}`;
+    }
+
+    protected getPath(key: string): string {
+        return path.join(this.dir, key);
+    }
+
+    protected async touchFile(key: string): Promise<void> {
+        // Always use the same clock for the modification times (file systems may use a coarser one when writing files)
+        const now = new Date();
+        await fse.utimes(this.getPath(key), now, now);
+    }
+
+    protected touch(entry: ICacheEntry) {
+        this.entries!.delete(entry.key);
+        this.entries!.set(entry.key, entry);
+    }
+
+    protected remove(entry: ICacheEntry) {
+        if (this.entries!.delete(entry.key)) {
+            this.totalSize -= entry.size;
+        }
+    }
+
+    /**
+     * Removes the least recently used assets until the total size of the cache fits the limit.
+     */
+    protected async evict(): Promise<void> {
+        if (this.maxSize <= 0) {
+            return;
+        }
+        for (const entry of this.entries!.values()) {
+            if (this.totalSize <= this.maxSize) {
+                break;
+            }
+            this.remove(entry);
+            await fse.remove(this.getPath(entry.key));
+        }
+    }
+
+    protected async getEntries(): Promise<Map<string, ICacheEntry>> {
+        if (!this.initialization) {
+            this.initialization = this.scan();
+        }
+        await this.initialization;
+        return this.entries!;
+    }
+
+    /**
+     * Collects the assets already stored in the cache folder, ordered by their last use.
+     */
+    protected async scan(): Promise<void> {
+        const found: { key: string; size: number; time: number }[] = [];
+        for (const type of Object.values(AssetType)) {
+            const typeDir = path.join(this.dir, type);
+            await fse.ensureDir(typeDir);
+            for (const name of await fse.readdir(typeDir)) {
+                if (name.endsWith('.tmp')) {
+                    continue;
+                }
+                const stats = await fse.stat(path.join(typeDir, name));
+                found.push({ key: this.getKey(type, name), size: stats.size, time: stats.mtimeMs });
+            }
+        }
+        found.sort((a, b) => a.time - b.time);
+        this.entries = new Map(found.map(({ key, size }) => [key, { key, size }]));
+        this.totalSize = found.reduce((total, { size }) => total + size, 0);
+        await this.evict();
+    }
+}
@@ -0,0 +1,38 @@
+import { Region } from '@aps_sdk/model-derivative';
+
+const CdnHost = 'cdn.derivative.autodesk.com';
+
+/**
+ * Returns the path prefix of the SVF2 (OTG) CDN endpoints for given region.
+ * @param region Region of the Model Derivative data. Defaults to US.
+ * @returns Path prefix of the regional endpoints (empty for the US region).
+ */
+function getRegionPrefix(region?: Region): string {
+    switch (region) {
+        case Region.Emea:
+            return '/regions/eu';
+        case Region.Aus:
+        case Region.Apac:
+            return '/regions/aus';
+        default:
+            return '';
+    }
+}
+
+/**
+ * Returns the base URL of the SVF2 (OTG) CDN HTTP endpoints for given region.
+ * @param region Region of the Model Derivative data. Defaults to US.
+ * @returns Base URL, for example, 'https://cdn.derivative.autodesk.com/regions/eu'.
+ */
+export function getCdnUrl(region?: Region): string {
+    return `https://${CdnHost}${getRegionPrefix(region)}`;
+}
+
+/**
+ * Returns the URL of the SVF2 (OTG) CDN WebSocket endpoint for given region.
+ * @param region Region of the Model Derivative data. Defaults to US.
+ * @returns WebSocket URL, for example, 'wss://cdn.derivative.autodesk.com/regions/eu/cdnws'.
+ */
+export function getCdnWebSocketUrl(region?: Region): string {
+    return `wss://${CdnHost}${getRegionPrefix(region)}/cdnws`;
+}
@@ -0,0 +1,141 @@
+import { Region } from '@aps_sdk/model-derivative';
+import { IAuthenticationProvider } from '../../common/authentication-provider';
+import { SharedDataHttpClient } from './SharedDataHttpClient';
+import { SharedDataWebSocketClient, SharedDataServerError, AssetType } from './SharedDataWebSocketClient';
+import { ISharedAssetCache } from '../cache';
+import { getViewAccount, resolveGeometryUrn, resolveMaterialUrn, View } from '../helpers/View';
+
+export interface ISharedDataOptions {
+    useWebSockets?: boolean; /** Retrieve geometries and materials over WebSockets instead of individual HTTP requests. Defaults to true. */
+    batchSize?: number; /** Number of geometries or materials requested at once. Defaults to 32. */
+    requestTimeout?: number; /** Max time (in milliseconds) to wait for a WebSocket connection or batch before the connection is considered broken, or 0 to wait indefinitely. Defaults to 60000. */
+    maxReconnects?: number; /** Max number of attempts to reconnect the WebSocket when retrieving a single batch. Defaults to 3. */
+    reconnectDelay?: number; /** Delay (in milliseconds) before reconnecting the WebSocket, doubled after each failed attempt. Defaults to 1000. */
+    httpFallback?: boolean; /** Retrieve remaining assets of a batch using HTTP requests when the WebSocket cannot be used. Defaults to true. */
+    cache?: ISharedAssetCache | null; /** Cache consulted before retrieving any geometries or materials, and populated with the retrieved ones. */
+}
+
+/**
+ * Client for shared SVF2 assets (geometries and materials), retrieving them in batches over WebSockets,
+ * reconnecting the WebSocket when it fails, and falling back to HTTP requests when necessary.
+ */
+export class SharedDataClient {
+    protected readonly options: Required<ISharedDataOptions>;
+    protected webSocketClient: SharedDataWebSocketClient | null = null;
+
+    constructor(
+        protected readonly authenticationProvider: IAuthenticationProvider,
+        protected readonly httpClient: SharedDataHttpClient,
+        protected readonly region?: Region,
+        options: ISharedDataOptions = {}
+    ) {
+        this.options = {
+            useWebSockets: options.useWebSockets ?? true,
+            batchSize: options.batchSize ?? 32,
+            requestTimeout: options.requestTimeout ?? 60000,
+            maxReconnects: options.maxReconnects ?? 3,
+            reconnectDelay: options.reconnectDelay ?? 1000,
+            httpFallback: options.httpFallback ?? true,
+            cache: options.cache ?? null
+        };
+    }
+
+    get batchSize(): number {
+        return this.options.batchSize;
+    }
+
+    /**
+     * Closes the WebSocket connection (if any). The client can still be used afterwards, reconnecting when needed.
+     */
+    close() {
+        if (this.webSocketClient) {
+            this.webSocketClient.close();
+            this.webSocketClient = null;
+        }
+    }
+
+    /**
+     * Retrieves a batch of shared assets, from the cache if possible.
+     * @async
+     * @param {string} urn Model Derivative model URN.
+     * @param {View} view View the assets belong to.
+     * @param {AssetType} type Type of the assets.
+     * @param {string[]} hashes Hashes of the assets (typically not more than {@link batchSize}).
+     * @returns {Promise<Map<string, Buffer>>} Map of asset hashes to asset data.
+     * @throws Error when some of the assets could not be retrieved.
+     */
+    async getAssets(urn: string, view: View, type: AssetType, hashes: string[]): Promise<Map<string, Buffer>> {
+        const { cache } = this.options;
+        const assets = new Map<string, Buffer>();
+        if (cache) {
+            await Promise.all(hashes.map(async hash => {
+                const data = await cache.get(type, hash);
+                if (data) {
+                    assets.set(hash, data);
+                }
+            }));
+        }
+        const missing = hashes.filter(hash => !assets.has(hash));
+        if (missing.length === 0) {
+            return assets;
+        }
+        if (this.options.useWebSockets) {
+            await this.getAssetsWebSocket(urn, getViewAccount(view), type, missing, assets);
+        }
+        const outstanding = missing.filter(hash => !assets.has(hash));
+        if (outstanding.length > 0) {
+            if (this.options.useWebSockets) {
+                if (!this.options.httpFallback) {
+                    throw new Error(`Could not retrieve ${outstanding.length} assets over WebSocket.`);
+                }
+                console.warn(`Retrieving ${outstanding.length} assets over HTTP...`);
+            }
+            await Promise.all(outstanding.map(async hash => {
+                const assetUrn = type === AssetType.Geometry ? resolveGeometryUrn(view, hash) : resolveMaterialUrn(view, hash);
+                assets.set(hash, await this.httpClient.getAsset(urn, assetUrn));
+            }));
+        }
+        if (cache) {
+            // Failing to cache the assets should not fail the batch that has already been retrieved
+            await Promise.all(missing.map(async hash => {
+                try {
+                    await cache.set(type, hash, assets.get(hash)!);
+                } catch (err) {
+                    console.warn(`Could not cache asset ${hash} (${(err as Error).message}).`);
+                }
+            }));
+        }
+        return assets;
+    }
+
+    /**
+     * Retrieves a batch of shared assets over WebSocket, reconnecting (with exponential backoff) when the connection fails
+     * or times out, and only requesting the assets that have not been received yet. Errors reported by the server are not
+     * retried. Does not throw, the assets that could not be retrieved are simply missing from the output map.
+     */
+    protected async getAssetsWebSocket(urn: string, account: string, type: AssetType, hashes: string[], assets: Map<string, Buffer>): Promise<void> {
+        const { maxReconnects, reconnectDelay, requestTimeout } = this.options;
+        for (let attempt = 0; attempt <= maxReconnects; attempt++) {
+            const outstanding = hashes.filter(hash => !assets.has(hash));
+            if (outstanding.length === 0) {
+                return;
+            }
+            try {
+                if (!this.webSocketClient || !this.webSocketClient.isOpen) {
+                    if (attempt > 0) {
+                        await new Promise(resolve => setTimeout(resolve, reconnectDelay * (1 << (attempt - 1))));
+                    }
+                    this.webSocketClient = await SharedDataWebSocketClient.Connect(this.authenticationProvider, this.region, undefined, requestTimeout);
+                }
+                await this.webSocketClient.getAssets(urn, account, type, outstanding, requestTimeout, assets);
+            } catch (err) {
+                console.warn(`WebSocket request failed (${(err as Error).message}).`);
+                this.close();
+                if (err instanceof SharedDataServerError) {
+                    // Reconnecting would not help, leave the remaining assets to the HTTP fallback
+                    return;
+                }
+            }
+        }
+    }
+}
@@ -1,16 +1,19 @@
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import { Scopes } from '@aps_sdk/authentication';
+import { Region } from '@aps_sdk/model-derivative';
 import { IAuthenticationProvider } from '../../common/authentication-provider';
+import { getCdnUrl } from './Endpoints';
 
 export class SharedDataHttpClient {
-    protected readonly axios = axios.create({
-        baseURL: 'https://cdn.derivative.autodesk.com/cdn',
-        headers: {
-            'Pragma': 'no-cache'
-        }
-    });
+    protected readonly axios: AxiosInstance;
 
-    constructor(protected readonly authenticationProvider: IAuthenticationProvider) {
+    constructor(protected readonly authenticationProvider: IAuthenticationProvider, region?: Region) {
+        this.axios = axios.create({
+            baseURL: `${getCdnUrl(region)}/cdn`,
+            headers: {
+                'Pragma': 'no-cache'
+            }
+        });
         this.axios.interceptors.request.use(async config => {
             const accessToken = await this.authenticationProvider.getToken([Scopes.ViewablesRead]);
             config.headers['Authorization'] = `Bearer ${accessToken}`;
@@ -1,7 +1,9 @@
 import WebSocket from 'ws';
 import { gunzipSync } from 'zlib';
 import { Scopes } from '@aps_sdk/authentication';
+import { Region } from '@aps_sdk/model-derivative';
 import { IAuthenticationProvider } from '../../common/authentication-provider';
+import { getCdnWebSocketUrl } from './Endpoints';
 
 export enum AssetType {
     Geometry = 'g',
@@ -17,6 +19,12 @@ interface Resource {
 const HashByteLength = 20;
 const HashHexLength = 40;
 
+/**
+ * Error reported by the WebSocket server itself (for example, when the assets cannot be accessed),
+ * as opposed to errors of the WebSocket connection.
+ */
+export class SharedDataServerError extends Error {}
+
 export class SharedDataWebSocketClient {
     protected requestedResources: number = 0;
     protected receivedResources: number = 0;
@@ -24,9 +32,9 @@ export class SharedDataWebSocketClient {
     protected lastSentURN: string = '';
     protected lastSentAccessToken: string = '';
 
-    public static async Connect(authenticationProvider: IAuthenticationProvider, url: string = 'wss://cdn.derivative.autodesk.com/cdnws'): Promise<SharedDataWebSocketClient> {
+    public static async Connect(authenticationProvider: IAuthenticationProvider, region?: Region, url: string = getCdnWebSocketUrl(region), timeout: number = 0): Promise<SharedDataWebSocketClient> {
         return new Promise<SharedDataWebSocketClient>((resolve, reject) => {
-            const ws = new WebSocket(url);
+            const ws = new WebSocket(url, timeout > 0 ? { handshakeTimeout: timeout } : undefined);
             ws.binaryType = 'arraybuffer';
             const onOpen = () => {
                 detachListeners();
@@ -86,7 +94,7 @@ export class SharedDataWebSocketClient {
                 // The first four bytes are a HTTP-statuscode-like error code. It doesn't add anything to the message so we ignore it.
                 // See https://git.autodesk.com/A360/platform-ds-ss/blob/6c439e82f3138eed3935b68096d2d980ffe95616/src/ws-server/ws-server.js#L310
                 const errorMessage = new TextDecoder().decode(data.subarray(4));
-                throw new Error(`Error from WebSocket server: ${errorMessage}`);
+                throw new SharedDataServerError(`Error from WebSocket server: ${errorMessage}`);
             } else {
                 resources.push({ type: resourceType as AssetType, hash: hash, data });
             }
@@ -96,21 +104,37 @@ export class SharedDataWebSocketClient {
 
     constructor(protected readonly ws: WebSocket, protected readonly authenticationProvider: IAuthenticationProvider) {}
 
+    get isOpen(): boolean {
+        return this.ws.readyState === WebSocket.OPEN;
+    }
+
     close() {
         this.ws.close();
     }
 
-    async getAssets(urn: string, account: string, type: AssetType, hashes: string[]): Promise<Map<string, Buffer>> {
+    /**
+     * Retrieves a batch of shared assets.
+     * @async
+     * @param {string} urn Model Derivative model URN.
+     * @param {string} account Account ID of the shared assets.
+     * @param {AssetType} type Type of the assets.
+     * @param {string[]} hashes Hashes of the assets.
+     * @param {number} [timeout] Max time (in milliseconds) to wait for the assets, or 0 to wait indefinitely.
+     * @param {Map<string, Buffer>} [assets] Map to be populated with the assets as they are received. In case of an error,
+     * the map will contain the assets received before the error occurred.
+     * @returns {Promise<Map<string, Buffer>>} Map of asset hashes to asset data.
+     * @throws Error when the server reports an error, or when the connection is closed or times out. In that case
+     * the client should not be used anymore.
+     */
+    async getAssets(urn: string, account: string, type: AssetType, hashes: string[], timeout: number = 0, assets: Map<string, Buffer> = new Map()): Promise<Map<string, Buffer>> {
         const accessToken = await this.authenticationProvider.getToken([Scopes.ViewablesRead]);
-        const resources = await this.requestResources(urn, account, type, hashes, accessToken);
-        const assets = new Map<string, Buffer>();
-        for (const { hash, data } of resources) {
+        await this.requestResources(urn, account, type, hashes, accessToken, timeout, ({ hash, data }) => {
             assets.set(hash, gunzipSync(Buffer.from(data.buffer)));
-        }
+        });
         return assets;
     }
 
-    protected requestResources(urn: string, accountID: string, type: AssetType, hashes: string[], accessToken: string): Promise<Resource[]> {
+    protected requestResources(urn: string, accountID: string, type: AssetType, hashes: string[], accessToken: string, timeout: number, onResource: (resource: Resource) => void): Promise<void> {
         if (this.ws.readyState !== WebSocket.OPEN) {
             throw new Error('WebSocket connection is not open.');
         }
@@ -133,22 +157,26 @@ export class SharedDataWebSocketClient {
             this.lastSentAccountID = accountID;
         }
 
-        return new Promise<Resource[]>(async (resolve, reject) => {
-            const results: Resource[] = [];
+        return new Promise<void>(async (resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
             const onMessage = (data: WebSocket.Data) => {
                 try {
                     const resources = SharedDataWebSocketClient.DecodeResponse(data as ArrayBuffer);
-                    results.push(...resources);
+                    resources.forEach(onResource);
                     this.receivedResources += resources.length;
                     if (this.receivedResources === this.requestedResources) {
                         detachListeners();
-                        resolve(results);
+                        resolve();
                     }
                 } catch (err) {
                     detachListeners();
                     reject(err);
                 }
             };
+            const onTimeout = () => {
+                detachListeners();
+                reject(new Error(`WebSocket request timed out after ${timeout}ms.`));
+            };
             const onError = (err: Error) => {
                 detachListeners();
                 reject(new Error(`WebSocket connection error: ${err.message}.`));
@@ -157,8 +185,16 @@ export class SharedDataWebSocketClient {
                 detachListeners();
                 reject(new Error(`WebSocket connection closed with code ${code}: ${reason.toString()}.`));
             };
-            const attachListeners = () => this.ws.on('message', onMessage).on('error', onError).on('close', onClose);
-            const detachListeners = () => this.ws.off('message', onMessage).off('error', onError).off('close', onClose);
+            const attachListeners = () => {
+                this.ws.on('message', onMessage).on('error', onError).on('close', onClose);
+                if (timeout > 0) {
+                    timer = setTimeout(onTimeout, timeout);
+                }
+            };
+            const detachListeners = () => {
+                this.ws.off('message', onMessage).off('error', onError).off('close', onClose);
+                clearTimeout(timer);
+            };
             attachListeners();
             const requestBuffer = SharedDataWebSocketClient.EncodeRequest(type, hashes);
             this.ws.send(requestBuffer);
@@ -1,40 +1,49 @@
 import * as path from 'node:path';
 import * as fse from 'fs-extra';
+import { Region } from '@aps_sdk/model-derivative';
 import { IAuthenticationProvider } from '../common/authentication-provider';
 import { ModelDataHttpClient } from './clients/ModelDataHttpClient';
 import { SharedDataHttpClient } from './clients/SharedDataHttpClient';
-import { SharedDataWebSocketClient, AssetType } from './clients/SharedDataWebSocketClient';
+import { AssetType } from './clients/SharedDataWebSocketClient';
+import { SharedDataClient, ISharedDataOptions } from './clients/SharedDataClient';
 import { findManifestSVF2, resolveViewURN, OTGManifest } from './helpers/Manifest';
 import { parseHashes } from './helpers/HashList';
-import { getViewAccount, parse, resolveAssetUrn, resolveGeometryUrn, resolveMaterialUrn, resolveTextureUrn, View } from './helpers/View';
-
-const UseWebSockets = true;
-const BatchSize = 32;
+import { parse, resolveAssetUrn, resolveTextureUrn, View } from './helpers/View';
 
 export class Downloader {
     protected readonly modelDataClient: ModelDataHttpClient;
-    protected readonly sharedDataClient: SharedDataHttpClient;
-    protected sharedDataWebSocketClient?: SharedDataWebSocketClient;
-
-    constructor(protected readonly authenticationProvider: IAuthenticationProvider) {
-        this.modelDataClient = new ModelDataHttpClient(authenticationProvider);
-        this.sharedDataClient = new SharedDataHttpClient(authenticationProvider);
+    protected readonly sharedDataHttpClient: SharedDataHttpClient;
+    protected readonly sharedDataClient: SharedDataClient;
+
+    /**
+     * Initializes the downloader.
+     * @param {IAuthenticationProvider} authenticationProvider Authentication provider for accessing the Model Derivative service.
+     * @param {Region} [region] Optional region to be used by all APS calls.
+     * @param {ISharedDataOptions} [options] Optional settings for downloading geometries and materials
+     * (e.g., whether to use WebSockets, batch size, timeouts, or reconnection attempts).
+     */
+    constructor(protected readonly authenticationProvider: IAuthenticationProvider, protected readonly region?: Region, options?: ISharedDataOptions) {
+        this.modelDataClient = new ModelDataHttpClient(authenticationProvider, region);
+        this.sharedDataHttpClient = new SharedDataHttpClient(authenticationProvider, region);
+        this.sharedDataClient = new SharedDataClient(authenticationProvider, this.sharedDataHttpClient, region, options);
     }
 
     async download(urn: string, outputDir: string): Promise<void> {
-        console.log(`Downloading ${urn}...`);
+        console.log(`Downloading ${urn} (region: ${this.region || 'default'})...`);
         await fse.ensureDir(outputDir);
         const sharedAssetsDir = outputDir; // For now, store shared assets in the same directory as the views
         const derivativeManifest = await this.modelDataClient.getManifest(urn);
         await fse.writeFile(path.join(outputDir, 'manifest.json'), JSON.stringify(derivativeManifest, null, 2));
         const manifest = findManifestSVF2(derivativeManifest);
-        this.sharedDataWebSocketClient = await SharedDataWebSocketClient.Connect(this.authenticationProvider);
-        for (const [id, view] of Object.entries(manifest.views)) {
-            if (view.role === 'graphics' && view.mime === 'application/autodesk-otg') {
-                await this.downloadView(urn, manifest, id, path.join(outputDir, id), sharedAssetsDir);
+        try {
+            for (const [id, view] of Object.entries(manifest.views)) {
+                if (view.role === 'graphics' && view.mime === 'application/autodesk-otg') {
+                    await this.downloadView(urn, manifest, id, path.join(outputDir, id), sharedAssetsDir);
+                }
             }
+        } finally {
+            this.sharedDataClient.close();
         }
-        this.sharedDataWebSocketClient.close();
     }
 
     protected async downloadView(urn: string, manifest: OTGManifest, viewId: string, outputDir: string, sharedAssetsDir: string): Promise<void> {
@@ -49,18 +58,10 @@ export class Downloader {
         await fse.writeFile(viewFilePath, viewManifestBuffer);
         await this.downloadFragments(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
         if (view.manifest.assets.geometry_ptrs) {
-            if (UseWebSockets) {
-                await this.downloadGeometriesBatch(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
-            } else {
-                await this.downloadGeometries(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
-            }
+            await this.downloadGeometries(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
         }
         if (view.manifest.assets.materials_ptrs) {
-            if (UseWebSockets) {
-                await this.downloadMaterialsBatch(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
-            } else {
-                await this.downloadMaterials(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
-            }
+            await this.downloadMaterials(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
         }
         await this.downloadTextures(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
         await this.downloadProperties(urn, resolvedViewURN, view, viewFolderPath, sharedAssetsDir);
@@ -79,51 +80,7 @@ export class Downloader {
         const geometryListBuffer = await this.modelDataClient.getAsset(urn, encodeURIComponent(resolvedGeometryListUrn));
         await fse.writeFile(path.join(outputDir, 'geometry_ptrs.hl'), geometryListBuffer);
         const geometryFolderPath = path.join(sharedAssetsDir, view.manifest.shared_assets.geometry);
-        await fse.ensureDir(geometryFolderPath);
-        for (const hash of parseHashes(geometryListBuffer)) {
-            const geometryFilePath = path.join(geometryFolderPath, hash);
-            if (await fse.pathExists(geometryFilePath)) {
-                console.log(`Geometry ${hash} already exists, skipping...`);
-                continue;
-            }
-            console.log(`Downloading geometry ${hash}...`);
-            const geometryUrn = resolveGeometryUrn(view, hash);
-            const geometryBuffer = await this.sharedDataClient.getAsset(urn, geometryUrn);
-            await fse.writeFile(geometryFilePath, geometryBuffer);
-        }
-    }
-
-    protected async downloadGeometriesBatch(urn: string, resolvedViewURN: string, view: View, outputDir: string, sharedAssetsDir: string): Promise<void> {
-        console.log(`Downloading geometry list...`);
-        const resolvedGeometryListUrn = resolveAssetUrn(resolvedViewURN, view.manifest.assets.geometry_ptrs!);
-        const geometryListBuffer = await this.modelDataClient.getAsset(urn, encodeURIComponent(resolvedGeometryListUrn));
-        await fse.writeFile(path.join(outputDir, 'geometry_ptrs.hl'), geometryListBuffer);
-        const geometryFolderPath = path.join(sharedAssetsDir, view.manifest.shared_assets.geometry);
-        await fse.ensureDir(geometryFolderPath);
-        const account = getViewAccount(view);
-
-        let batch: { hash: string; path: string; }[] = [];
-        const processBatch = async () => {
-            console.log(`Downloading geometry batch ${batch.map(e => e.hash.substring(0, 4))}...`);
-            const buffers = await this.sharedDataWebSocketClient!.getAssets(urn, account, AssetType.Geometry, batch.map(e => e.hash));
-            await Promise.all(batch.map(({ hash, path }) => fse.writeFile(path, buffers.get(hash)!)));
-            batch = [];
-        }
-
-        for (const hash of parseHashes(geometryListBuffer)) {
-            const geometryFilePath = path.join(geometryFolderPath, hash);
-            if (await fse.pathExists(geometryFilePath)) {
-                console.log(`Geometry ${hash} already exists, skipping...`);
-                continue;
-            }
-            batch.push({ hash, path: geometryFilePath });
-            if (batch.length === BatchSize) {
-                await processBatch();
-            }
-        }
-        if (batch.length > 0) {
-            await processBatch();
-        }
+        await this.downloadSharedAssets(urn, view, AssetType.Geometry, parseHashes(geometryListBuffer), geometryFolderPath);
     }
 
     protected async downloadMaterials(urn: string, resolvedViewURN: string, view: View, outputDir: string, sharedAssetsDir: string): Promise<void> {
@@ -132,45 +89,29 @@ export class Downloader {
         const materialListBuffer = await this.modelDataClient.getAsset(urn, encodeURIComponent(resolvedMaterialListUrn));
         await fse.writeFile(path.join(outputDir, 'materials_ptrs.hl'), materialListBuffer);
         const materialFolderPath = path.join(sharedAssetsDir, view.manifest.shared_assets.materials);
-        await fse.ensureDir(materialFolderPath);
-        for (const hash of parseHashes(materialListBuffer)) {
-            const materialFilePath = path.join(materialFolderPath, hash);
-            if (await fse.pathExists(materialFilePath)) {
-                console.log(`Material ${hash} already exists, skipping...`);
-                continue;
-            }
-            console.log(`Downloading material ${hash}...`);
-            const materialUrn = resolveMaterialUrn(view, hash);
-            const materialBuffer = await this.sharedDataClient.getAsset(urn, materialUrn);
-            await fse.writeFile(materialFilePath, materialBuffer);
-        }
+        await this.downloadSharedAssets(urn, view, AssetType.Material, parseHashes(materialListBuffer), materialFolderPath);
     }
 
-    protected async downloadMaterialsBatch(urn: string, resolvedViewURN: string, view: View, outputDir: string, sharedAssetsDir: string): Promise<void> {
-        console.log(`Downloading material list...`);
-        const resolvedMaterialListUrn = resolveAssetUrn(resolvedViewURN, view.manifest.assets.materials_ptrs!);
-        const materialListBuffer = await this.modelDataClient.getAsset(urn, encodeURIComponent(resolvedMaterialListUrn));
-        await fse.writeFile(path.join(outputDir, 'materials_ptrs.hl'), materialListBuffer);
-        const materialFolderPath = path.join(sharedAssetsDir, view.manifest.shared_assets.materials);
-        await fse.ensureDir(materialFolderPath);
-        const account = getViewAccount(view);
+    protected async downloadSharedAssets(urn: string, view: View, type: AssetType, hashes: Iterable<string>, outputDir: string): Promise<void> {
+        const typeName = type === AssetType.Geometry ? 'geometry' : 'material';
+        await fse.ensureDir(outputDir);
 
-        let batch: { hash: string; path: string }[] = [];
+        let batch: { hash: string; path: string; }[] = [];
         const processBatch = async () => {
-            console.log(`Downloading material batch ${batch.map(e => e.hash.substring(0, 4))}...`);
-            const buffers = await this.sharedDataWebSocketClient!.getAssets(urn, account, AssetType.Material, batch.map(e => e.hash));
+            console.log(`Downloading ${typeName} batch ${batch.map(e => e.hash.substring(0, 4))}...`);
+            const buffers = await this.sharedDataClient.getAssets(urn, view, type, batch.map(e => e.hash));
             await Promise.all(batch.map(({ hash, path }) => fse.writeFile(path, buffers.get(hash)!)));
             batch = [];
-        }
+        };
 
-        for (const hash of parseHashes(materialListBuffer)) {
-            const materialFilePath = path.join(materialFolderPath, hash);
-            if (await fse.pathExists(materialFilePath)) {
-                console.log(`Material ${hash} already exists, skipping...`);
+        for (const hash of hashes) {
+            const filePath = path.join(outputDir, hash);
+            if (await fse.pathExists(filePath)) {
+                console.log(`${typeName[0].toUpperCase() + typeName.substring(1)} ${hash} already exists, skipping...`);
                 continue;
             }
-            batch.push({ hash, path: materialFilePath });
-            if (batch.length === BatchSize) {
+            batch.push({ hash, path: filePath });
+            if (batch.length === this.sharedDataClient.batchSize) {
                 await processBatch();
             }
         }
@@ -198,7 +139,7 @@ export class Downloader {
             }
             console.log(`Downloading texture ${uri}...`);
             const textureUrn = resolveTextureUrn(view, uri);
-            const textureBuffer = await this.sharedDataClient.getAsset(urn, textureUrn);
+            const textureBuffer = await this.sharedDataHttpClient.getAsset(urn, textureUrn);
             await fse.writeFile(textureFilePath, textureBuffer);
         }
     }
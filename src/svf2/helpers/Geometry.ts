@@ -4,7 +4,7 @@ export type Geometry = IMeshGeometry | ILineGeometry;
 
 export interface IMeshGeometry {
     type: GeometryType.Triangles;
-    indices: Uint16Array;
+    indices: Uint16Array | Uint32Array;
     vertices: Float32Array;
     normals?: Float32Array;
     colors?: Float32Array;
@@ -13,7 +13,7 @@ export interface IMeshGeometry {
 
 export interface ILineGeometry {
     type: GeometryType.Lines;
-    indices: Uint16Array;
+    indices: Uint16Array | Uint32Array;
     vertices: Float32Array;
 }
 
@@ -192,22 +192,29 @@ function decodeNormal(enc: { x: number; y: number; }): ({ x: number; y: number;
     return { x: scth.y * scphi.x, y: scth.x * scphi.x, z: scphi.y };
 }
 
-function getIndices(attributes: IGeometryAttribute[], buffers: Buffer[], isLines: boolean): Uint16Array {
+function getIndices(attributes: IGeometryAttribute[], buffers: Buffer[], isLines: boolean): Uint16Array | Uint32Array {
     const indicesAttr: IGeometryAttribute = attributes.filter((a: IGeometryAttribute) => a.attributeType === AttributeType.Index)[0];
     if (indicesAttr) {
         const buffer = buffers[indicesAttr.bufferId];
         const is = new InputStream(buffer);
-        const ind: number[] = [];
+        const is32Bit = attributeTypeSize(indicesAttr.componentType) === 4;
         is.seek(indicesAttr.itemOffset);
-        while (is.offset < is.length) {
-            ind.push(is.getUint16());
+        const count = Math.floor((is.length - is.offset) / (is32Bit ? 4 : 2));
+        // Decode the indices in place in an array of the source width, so that the deltas wrap around the same way as in the viewer
+        const ind = is32Bit ? new Uint32Array(count) : new Uint16Array(count);
+        for (let i = 0; i < count; i++) {
+            ind[i] = is32Bit ? is.getUint32() : is.getUint16();
         }
         if (isLines) {
             deltaDecodeIndexBuffer2(ind);
         } else {
             deltaDecodeIndexBuffer3(ind);
         }
-        return new Uint16Array(ind);
+        // Keep 16-bit indices whenever possible
+        if (is32Bit && ind.every(index => index <= 0xffff)) {
+            return new Uint16Array(ind);
+        }
+        return ind;
     }
     return new Uint16Array();
 }
@@ -0,0 +1,86 @@
+import * as zlib from 'zlib';
+import { InputStream } from '../../common/input-stream';
+import { PropDbReader } from '../../common/propdb-reader';
+
+/**
+ * Private (view-specific) assets of the SVF2 property database.
+ */
+export interface PrivatePropDbAssets {
+    avs: Buffer;
+    offsets: Buffer;
+    dbid: Buffer;
+}
+
+/**
+ * Shared (content-addressed) assets of the SVF2 property database.
+ */
+export interface SharedPropDbAssets {
+    attrs: Buffer;
+    values: Buffer;
+    ids: Buffer;
+}
+
+function decompress(buffer: Buffer): Buffer {
+    return (buffer[0] === 31 && buffer[1] === 139) ? zlib.gunzipSync(buffer) : buffer;
+}
+
+function parseJson(buffer: Buffer): any[] {
+    return JSON.parse(decompress(buffer).toString());
+}
+
+function parseUint32Array(buffer: Buffer): Uint32Array {
+    buffer = decompress(buffer);
+    const array = new Uint32Array(buffer.byteLength >> 2);
+    for (let i = 0; i < array.length; i++) {
+        array[i] = buffer.readUInt32LE(i * 4);
+    }
+    return array;
+}
+
+/**
+ * Parses the SVF2 property database into a {@link PropDbReader}.
+ *
+ * Unlike in SVF, where all the property database assets are JSON arrays, the private assets of SVF2 are binary:
+ * `offsets` is a list of 32-bit byte offsets into `avs` (one for each object ID), `avs` is a list of varint-encoded
+ * pairs of attribute and value indices (with the attribute indices delta-encoded within each object), and `dbid`
+ * is a list of 32-bit indices of each object's external ID in the shared `ids` list. The shared `attrs`, `values`,
+ * and `ids` assets are (optionally gzipped) JSON arrays with the same structure as in SVF.
+ *
+ * @param privateAssets The private property database assets (from `manifest.assets.pdb` of a view).
+ * @param sharedAssets The shared property database assets (from `manifest.shared_assets.pdb` of a view).
+ * @returns Property database reader.
+ *
+ * @example
+ * ```typescript
+ * const propdb = parsePropDb({ avs, offsets, dbid }, { attrs, values, ids });
+ * console.log(propdb.getProperties(1));
+ * ```
+ */
+export function parsePropDb(privateAssets: PrivatePropDbAssets, sharedAssets: SharedPropDbAssets): PropDbReader {
+    const avsBuffer = decompress(privateAssets.avs);
+    const byteOffsets = parseUint32Array(privateAssets.offsets);
+    const dbids = parseUint32Array(privateAssets.dbid);
+    const sharedIds = parseJson(sharedAssets.ids);
+
+    // Convert the attribute-value pairs into the SVF layout, where offsets are indices of the pairs
+    const offsets: number[] = [];
+    const avs: number[] = [];
+    const stream = new InputStream(avsBuffer);
+    for (let id = 0; id < byteOffsets.length; id++) {
+        offsets.push(avs.length / 2);
+        const end = id < byteOffsets.length - 1 ? byteOffsets[id + 1] : avsBuffer.byteLength;
+        stream.seek(byteOffsets[id]);
+        let attrIndex = 0;
+        while (stream.offset < end) {
+            attrIndex += stream.getVarint();
+            avs.push(attrIndex, stream.getVarint());
+        }
+    }
+
+    const ids: any[] = [];
+    for (let id = 0; id < dbids.length; id++) {
+        ids.push(sharedIds[dbids[id]]);
+    }
+
+    return new PropDbReader(ids, offsets, avs, parseJson(sharedAssets.attrs), parseJson(sharedAssets.values));
+}
@@ -78,6 +78,7 @@ export function getViewMetadata(view: View): { [key: string]: any } {
         "world front vector": map["world front vector"],
         "world north vector": map["world north vector"],
         "distance unit": map["distance unit"],
+        "georeference": view.georeference,
     }
     return metadata;
 }
@@ -1,37 +1,188 @@
+import * as path from 'node:path';
+import * as fse from 'fs-extra';
 import * as IMF from '../common/intermediate-format';
+import { Region } from '@aps_sdk/model-derivative';
 import { IAuthenticationProvider } from '../common/authentication-provider';
 import { PropDbReader } from '../common/propdb-reader';
 import { ModelDataHttpClient } from './clients/ModelDataHttpClient';
 import { SharedDataHttpClient } from './clients/SharedDataHttpClient';
-import { SharedDataWebSocketClient, AssetType } from './clients/SharedDataWebSocketClient';
+import { AssetType } from './clients/SharedDataWebSocketClient';
+import { SharedDataClient, ISharedDataOptions } from './clients/SharedDataClient';
 import { parseHashes } from './helpers/HashList';
 import { Fragment, parseFragments } from './helpers/Fragment';
 import { Geometry, GeometryType, parseGeometry } from './helpers/Geometry';
 import { Material, parseMaterial } from './helpers/Material';
+import { parsePropDb } from './helpers/PropDb';
 import { findManifestSVF2, resolveViewURN, OTGManifest } from './helpers/Manifest';
-import { getViewAccount, getViewMetadata, parse, resolveAssetUrn, resolveGeometryUrn, resolveMaterialUrn, resolveTextureUrn, View } from './helpers/View';
+import { getViewMetadata, parse, resolveAssetUrn, resolveTextureUrn, View } from './helpers/View';
 
-const UseWebSockets = true;
-const BatchSize = 32;
+/**
+ * Source of the individual SVF2 assets, for example, the Model Derivative service,
+ * or a local folder with assets downloaded using {@link Downloader}.
+ */
+interface IAssetSource {
+    getViewManifest(viewId: string): Promise<Buffer>;
+    getFragments(viewId: string, view: View): Promise<Buffer>;
+    getGeometryList(viewId: string, view: View): Promise<Buffer>;
+    getGeometries(view: View, hashes: string[]): Promise<Buffer[]>;
+    getMaterialList(viewId: string, view: View): Promise<Buffer>;
+    getMaterials(view: View, hashes: string[]): Promise<Buffer[]>;
+    getTextureManifest(viewId: string, view: View): Promise<Buffer>;
+    getTexture(view: View, uri: string): Promise<Buffer>;
+    getPropertyAsset(viewId: string, uri: string): Promise<Buffer>;
+}
+
+class DerivativeServiceAssetSource implements IAssetSource {
+    constructor(
+        protected urn: string,
+        protected manifest: OTGManifest,
+        protected modelDataClient: ModelDataHttpClient,
+        protected sharedDataHttpClient: SharedDataHttpClient,
+        protected sharedDataClient: SharedDataClient
+    ) {}
+
+    protected getPrivateAsset(viewId: string, uri: string): Promise<Buffer> {
+        const resolvedViewURN = resolveViewURN(this.manifest, this.manifest.views[viewId]);
+        return this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolveAssetUrn(resolvedViewURN, uri)));
+    }
+
+    async getViewManifest(viewId: string): Promise<Buffer> {
+        const resolvedViewURN = resolveViewURN(this.manifest, this.manifest.views[viewId]);
+        return this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolvedViewURN));
+    }
+
+    async getFragments(viewId: string, view: View): Promise<Buffer> {
+        return this.getPrivateAsset(viewId, view.manifest.assets.fragments);
+    }
+
+    async getGeometryList(viewId: string, view: View): Promise<Buffer> {
+        return this.getPrivateAsset(viewId, view.manifest.assets.geometry_ptrs!);
+    }
+
+    async getGeometries(view: View, hashes: string[]): Promise<Buffer[]> {
+        return this.getSharedAssets(view, AssetType.Geometry, hashes);
+    }
+
+    async getMaterialList(viewId: string, view: View): Promise<Buffer> {
+        return this.getPrivateAsset(viewId, view.manifest.assets.materials_ptrs!);
+    }
+
+    async getMaterials(view: View, hashes: string[]): Promise<Buffer[]> {
+        return this.getSharedAssets(view, AssetType.Material, hashes);
+    }
+
+    async getTextureManifest(viewId: string, view: View): Promise<Buffer> {
+        return this.getPrivateAsset(viewId, view.manifest.assets.texture_manifest!);
+    }
+
+    async getTexture(view: View, uri: string): Promise<Buffer> {
+        return this.sharedDataHttpClient.getAsset(this.urn, resolveTextureUrn(view, uri));
+    }
+
+    async getPropertyAsset(viewId: string, uri: string): Promise<Buffer> {
+        return this.getPrivateAsset(viewId, uri);
+    }
+
+    protected async getSharedAssets(view: View, type: AssetType, hashes: string[]): Promise<Buffer[]> {
+        const { batchSize } = this.sharedDataClient;
+        const buffers: Buffer[] = [];
+        try {
+            for (let i = 0; i < hashes.length; i += batchSize) {
+                const batch = hashes.slice(i, i + batchSize);
+                console.log(`Reading ${type === AssetType.Geometry ? 'geometry' : 'material'} batch ${batch.map(hash => hash.substring(0, 4))}...`);
+                const results = await this.sharedDataClient.getAssets(this.urn, view, type, batch);
+                buffers.push(...batch.map(hash => results.get(hash)!));
+            }
+        } finally {
+            this.sharedDataClient.close();
+        }
+        return buffers;
+    }
+}
+
+/**
+ * Reads assets from the folder structure produced by {@link Downloader}, where the manifest of each view
+ * is stored in a subfolder named after the view ID, next to its fragments and hash lists, and the shared
+ * geometries, materials and textures are stored in folders named after their base URLs.
+ */
+class FileSystemAssetSource implements IAssetSource {
+    constructor(protected baseDir: string, protected manifest: OTGManifest) {}
+
+    protected getViewFolder(viewId: string): string {
+        return path.dirname(path.join(this.baseDir, viewId, this.manifest.views[viewId].urn));
+    }
+
+    async getViewManifest(viewId: string): Promise<Buffer> {
+        return fse.readFile(path.join(this.baseDir, viewId, this.manifest.views[viewId].urn));
+    }
+
+    async getFragments(viewId: string, view: View): Promise<Buffer> {
+        return fse.readFile(path.join(this.getViewFolder(viewId), 'fragments.fl'));
+    }
+
+    async getGeometryList(viewId: string, view: View): Promise<Buffer> {
+        return fse.readFile(path.join(this.getViewFolder(viewId), 'geometry_ptrs.hl'));
+    }
+
+    async getGeometries(view: View, hashes: string[]): Promise<Buffer[]> {
+        const geometryFolderPath = path.join(this.baseDir, view.manifest.shared_assets.geometry);
+        return Promise.all(hashes.map(hash => fse.readFile(path.join(geometryFolderPath, hash))));
+    }
+
+    async getMaterialList(viewId: string, view: View): Promise<Buffer> {
+        return fse.readFile(path.join(this.getViewFolder(viewId), 'materials_ptrs.hl'));
+    }
+
+    async getMaterials(view: View, hashes: string[]): Promise<Buffer[]> {
+        const materialFolderPath = path.join(this.baseDir, view.manifest.shared_assets.materials);
+        return Promise.all(hashes.map(hash => fse.readFile(path.join(materialFolderPath, hash))));
+    }
+
+    async getTextureManifest(viewId: string, view: View): Promise<Buffer> {
+        return fse.readFile(path.join(this.getViewFolder(viewId), 'texture_manifest.json'));
+    }
+
+    async getTexture(view: View, uri: string): Promise<Buffer> {
+        return fse.readFile(path.join(this.baseDir, view.manifest.shared_assets.textures, uri));
+    }
+
+    async getPropertyAsset(viewId: string, uri: string): Promise<Buffer> {
+        return fse.readFile(path.join(this.getViewFolder(viewId), uri));
+    }
+}
 
 export class Reader {
-    static async FromDerivativeService(urn: string, authenticationProvider: IAuthenticationProvider): Promise<Reader> {
-        const modelDataClient = new ModelDataHttpClient(authenticationProvider);
-        const sharedDataClient = new SharedDataHttpClient(authenticationProvider);
+    /**
+     * Instantiates new reader for an SVF2 in APS Model Derivative service.
+     * @async
+     * @param {string} urn APS model URN.
+     * @param {IAuthenticationProvider} authenticationProvider Authentication provider for accessing the Model Derivative service.
+     * @param {Region} [region] Optional region to be used by all APS calls.
+     * @param {ISharedDataOptions} [options] Optional settings for retrieving geometries and materials
+     * (e.g., whether to use WebSockets, batch size, timeouts, or reconnection attempts).
+     * @returns {Promise<Reader>} Reader for the provided SVF2.
+     */
+    static async FromDerivativeService(urn: string, authenticationProvider: IAuthenticationProvider, region?: Region, options?: ISharedDataOptions): Promise<Reader> {
+        const modelDataClient = new ModelDataHttpClient(authenticationProvider, region);
+        const sharedDataHttpClient = new SharedDataHttpClient(authenticationProvider, region);
+        const sharedDataClient = new SharedDataClient(authenticationProvider, sharedDataHttpClient, region, options);
         const derivativeManifest = await modelDataClient.getManifest(urn);
         const manifest = findManifestSVF2(derivativeManifest);
-        return new Reader(urn, manifest, modelDataClient, sharedDataClient, authenticationProvider);
+        return new Reader(manifest, new DerivativeServiceAssetSource(urn, manifest, modelDataClient, sharedDataHttpClient, sharedDataClient));
     }
 
-    protected constructor(
-        protected urn: string,
-        protected manifest: OTGManifest,
-        protected modelDataClient: ModelDataHttpClient,
-        protected sharedDataClient: SharedDataHttpClient,
-        protected authenticationProvider: IAuthenticationProvider
-    ) {}
+    /**
+     * Instantiates new reader for an SVF2 downloaded to local file system using {@link Downloader}.
+     * @param {string} dir Path to the folder the model was downloaded to (containing the manifest.json file).
+     * @returns {Promise<Reader>} Reader for the downloaded SVF2.
+     */
+    static async FromFileSystem(dir: string): Promise<Reader> {
+        const derivativeManifest = await fse.readJson(path.join(dir, 'manifest.json'));
+        const manifest = findManifestSVF2(derivativeManifest);
+        return new Reader(manifest, new FileSystemAssetSource(dir, manifest));
+    }
 
-    protected properties: PropDbReader | undefined;
+    protected constructor(protected manifest: OTGManifest, protected source: IAssetSource) {}
 
     async listViews(): Promise<string[]>  {
         const ids: string[] = [];
@@ -44,163 +195,72 @@ export class Reader {
     }
 
     async readView(viewId: string): Promise<Scene> {
-        // TODO: Decode property database
         console.log(`Reading view ${viewId}...`);
-        const resolvedViewURN = resolveViewURN(this.manifest, this.manifest.views[viewId]);
-        const viewManifestBuffer = await this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolvedViewURN));
-        const view = parse(JSON.parse(viewManifestBuffer.toString()));
+        const view = await this.readViewManifest(viewId);
         const { assets } = view.manifest;
-        const fragments = await this.readFragments(view, resolveAssetUrn(resolvedViewURN, assets.fragments));
-        const geometries: Geometry[] = assets.geometry_ptrs
-            ? (UseWebSockets
-                ? await this.readGeometriesBatch(view, resolveAssetUrn(resolvedViewURN, assets.geometry_ptrs))
-                : await this.readGeometries(view, resolveAssetUrn(resolvedViewURN, assets.geometry_ptrs)))
-            : [];
-        const materials: Material[] = assets.materials_ptrs
-            ? (UseWebSockets
-                ? await this.readMaterialsBatch(view, resolveAssetUrn(resolvedViewURN, assets.materials_ptrs))
-                : await this.readMaterials(view, resolveAssetUrn(resolvedViewURN, assets.materials_ptrs)))
-            : [];
-        const textures = assets.texture_manifest
-            ? await this.readTextures(view, resolveAssetUrn(resolvedViewURN, assets.texture_manifest))
-            : new Map<string, any>();
+        const fragments = await this.readFragments(viewId, view);
+        const geometries: Geometry[] = assets.geometry_ptrs ? await this.readGeometries(viewId, view) : [];
+        const materials: Material[] = assets.materials_ptrs ? await this.readMaterials(viewId, view) : [];
+        const textures = assets.texture_manifest ? await this.readTextures(viewId, view) : new Map<string, any>();
         const metadata = getViewMetadata(view);
         return new Scene(metadata, fragments, geometries, materials, textures);
     }
 
-    protected async readFragments(view: View, resolvedfragListUrn: string): Promise<Fragment[]> {
-        console.log('Reading fragment list...');
-        const fragmentData = await this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolvedfragListUrn));
-        const fragments = Array.from(parseFragments(fragmentData, view.fragmentTransformsOffset));
-        return fragments;
+    /**
+     * Retrieves and parses the property database of given view.
+     * @async
+     * @param {string} viewId View ID.
+     * @returns {Promise<PropDbReader>} Property database reader.
+     */
+    async getPropertyDb(viewId: string): Promise<PropDbReader> {
+        console.log(`Reading property database of view ${viewId}...`);
+        const view = await this.readViewManifest(viewId);
+        const { avs, offsets, dbid } = view.manifest.assets.pdb;
+        const { attrs, values, ids } = view.manifest.shared_assets.pdb;
+        const buffers = await Promise.all([avs, offsets, dbid, attrs, values, ids].map(uri => this.source.getPropertyAsset(viewId, uri)));
+        return parsePropDb(
+            { avs: buffers[0], offsets: buffers[1], dbid: buffers[2] },
+            { attrs: buffers[3], values: buffers[4], ids: buffers[5] }
+        );
     }
 
-    protected async readGeometries(view: View, resolvedGeomHashListUrn: string): Promise<Geometry[]> {
-        console.log('Reading geometry list...');
-        const geometryPromises: Promise<Geometry>[] = [];
-        const geometryListBuffer = await this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolvedGeomHashListUrn));
-        for (const hash of parseHashes(geometryListBuffer)) {
-            console.log(`Reading geometry ${hash}...`);
-            const geometryUrn = resolveGeometryUrn(view, hash);
-            geometryPromises.push(this.sharedDataClient.getAsset(this.urn, geometryUrn).then(parseGeometry));
-        }
-        const geometries = await Promise.all(geometryPromises);
-        return geometries;
+    protected async readViewManifest(viewId: string): Promise<View> {
+        const viewManifestBuffer = await this.source.getViewManifest(viewId);
+        return parse(JSON.parse(viewManifestBuffer.toString()));
     }
 
-    protected async readGeometriesBatch(view: View, resolvedGeomHashListUrn: string): Promise<Geometry[]> {
-        console.log('Reading geometry list...');
-        const sharedDataWebSocketClient = await SharedDataWebSocketClient.Connect(this.authenticationProvider);
-        const account = getViewAccount(view);
-        const geometryListBuffer = await this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolvedGeomHashListUrn));
-        const geometries: Geometry[] = [];
-
-        let batch: string[] = [];
-        const processBatch = async () => {
-            console.log(`Reading geometry batch ${batch.map(hash => hash.substring(0, 4))}...`);
-            const buffers = await sharedDataWebSocketClient.getAssets(this.urn, account, AssetType.Geometry, batch);
-            geometries.push(...batch.map(hash => parseGeometry(buffers.get(hash)!)));
-            batch = [];
-        };
-
-        for (const hash of parseHashes(geometryListBuffer)) {
-            batch.push(hash);
-            if (batch.length === BatchSize) {
-                await processBatch();
-            }
-        }
-        if (batch.length > 0) {
-            await processBatch();
-        }
-        sharedDataWebSocketClient.close();
-        return geometries;
+    protected async readFragments(viewId: string, view: View): Promise<Fragment[]> {
+        console.log('Reading fragment list...');
+        const fragmentData = await this.source.getFragments(viewId, view);
+        const fragments = Array.from(parseFragments(fragmentData, view.fragmentTransformsOffset));
+        return fragments;
     }
 
-    protected async readMaterials(view: View, resolvedMaterialHashListUrn: string): Promise<Material[]> {
-        console.log('Reading material list...');
-        const materialListBuffer = await this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolvedMaterialHashListUrn));
-        const materials: Material[] = [];
-        for (const hash of parseHashes(materialListBuffer)) {
-            console.log(`Reading material ${hash}...`);
-            const materialUrn = resolveMaterialUrn(view, hash);
-            const materialData = await this.sharedDataClient.getAsset(this.urn, materialUrn);
-            materials.push(parseMaterial(materialData));
-        }
-        return materials;
+    protected async readGeometries(viewId: string, view: View): Promise<Geometry[]> {
+        console.log('Reading geometry list...');
+        const geometryListBuffer = await this.source.getGeometryList(viewId, view);
+        const buffers = await this.source.getGeometries(view, Array.from(parseHashes(geometryListBuffer)));
+        return buffers.map(parseGeometry);
     }
 
-    protected async readMaterialsBatch(view: View, resolvedMaterialHashListUrn: string): Promise<Material[]> {
+    protected async readMaterials(viewId: string, view: View): Promise<Material[]> {
         console.log('Reading material list...');
-        const sharedDataWebSocketClient = await SharedDataWebSocketClient.Connect(this.authenticationProvider);
-        const account = getViewAccount(view);
-        const materialListBuffer = await this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolvedMaterialHashListUrn));
-        const materials: Material[] = [];
-
-        let batch: string[] = [];
-        const processBatch = async () => {
-            console.log(`Reading material batch ${batch.map(hash => hash.substring(0, 4))}...`);
-            const buffers = await sharedDataWebSocketClient.getAssets(this.urn, account, AssetType.Material, batch);
-            materials.push(...batch.map(hash => parseMaterial(buffers.get(hash)!)));
-            batch = [];
-        };
-
-        for (const hash of parseHashes(materialListBuffer)) {
-            batch.push(hash);
-            if (batch.length === BatchSize) {
-                await processBatch();
-            }
-        }
-        if (batch.length > 0) {
-            await processBatch();
-        }
-        sharedDataWebSocketClient.close();
-        return materials;
+        const materialListBuffer = await this.source.getMaterialList(viewId, view);
+        const buffers = await this.source.getMaterials(view, Array.from(parseHashes(materialListBuffer)));
+        return buffers.map(parseMaterial);
     }
 
-    protected async readTextures(view: View, textureManifestUri: string): Promise<Map<string, any>> {
+    protected async readTextures(viewId: string, view: View): Promise<Map<string, any>> {
         console.log('Reading texture list...');
         const map = new Map<string, any>();
-        const textureListBuffer = await this.modelDataClient.getAsset(this.urn, encodeURIComponent(textureManifestUri));
+        const textureListBuffer = await this.source.getTextureManifest(viewId, view);
         const textureManifest = JSON.parse(textureListBuffer.toString()) as { [key: string]: string };
         for (const [_, uri] of Object.entries(textureManifest)) {
             console.log(`Reading texture ${uri} ...`);
-            const textureUrn = resolveTextureUrn(view, uri);
-            const textureData = await this.sharedDataClient.getAsset(this.urn, textureUrn);
-            map.set(uri, textureData);
+            map.set(uri, await this.source.getTexture(view, uri));
         }
         return map;
     }
-
-    // protected async getPropertyDb(view: View): Promise<PropDbReader> {
-    //     // const privateDbAssets = viewHelper.listPrivateDatabaseAssets();
-    //     // const sharedDbAssets = viewHelper.listSharedDatabaseAssets();
-
-    //     const privateDbAssets = view.manifest.assets.pdb;
-    //     const sharedDbAssets = view.manifest.shared_assets.pdb;
-    //     if (!privateDbAssets || !sharedDbAssets) {
-    //         throw new Error('Could not parse property database. Some of the database assets are missing.');
-    //     }
-
-    //     const offsetsAsset = privateDbAssets['offsets'];
-    //     const avsAsset = privateDbAssets['avs'];
-    //     const dbIdAsset = privateDbAssets['dbid'];
-
-    //     const idsAsset = sharedDbAssets['ids'];
-    //     const attrsAsset = sharedDbAssets['attrs'];
-    //     const valsAsset = sharedDbAssets['values'];
-
-    //     const buffers = await Promise.all([
-    //         this.modelDataClient.getAsset(this.urn, encodeURIComponent(resolveAssetUrn(view, idsAsset))),
-    //         this.modelDataClient.getAsset(this.urn, encodeURIComponent(offsetsAsset.resolvedUrn)),
-    //         this.modelDataClient.getAsset(this.urn, encodeURIComponent(avsAsset.resolvedUrn)),
-    //         this.modelDataClient.getAsset(this.urn, encodeURIComponent(attrsAsset.resolvedUrn)),
-    //         this.modelDataClient.getAsset(this.urn, encodeURIComponent(valsAsset.resolvedUrn)),
-    //         this.modelDataClient.getAsset(this.urn, encodeURIComponent(dbIdAsset.resolvedUrn)),
-    //     ]);
-
-    //     // SVF common function not working with private db assets
-    //     return new PropDbReader(buffers[0], buffers[1], buffers[2], buffers[3], buffers[4]);
-    // }
 }
 
 export class Scene implements IMF.IScene {
@@ -278,14 +338,21 @@ export class Scene implements IMF.IScene {
 
     getMaterial(id: number): IMF.Material {
         const _mat = this.materials[id]; // should fix this remove one array level
+        // Texture transforms are shared by all maps of the material, preferably taken from the diffuse map
+        const _map = _mat?.maps?.diffuse ?? Object.values(_mat?.maps ?? {}).find(map => !!map);
         const mat: IMF.IPhysicalMaterial = {
             kind: IMF.MaterialKind.Physical,
             diffuse: { x: 0, y: 0, z: 0 },
             metallic: _mat?.metal ? 1.0 : 0.0,
             opacity: _mat?.opacity ?? 1.0,
-            roughness: _mat?.glossiness ? (20.0 / _mat.glossiness) : 1.0, // TODO: how to map glossiness to roughness properly?
-            scale: { x: _mat?.maps?.diffuse?.scale.texture_UScale ?? 1.0, y: _mat?.maps?.diffuse?.scale.texture_VScale ?? 1.0 }
+            roughness: _mat?.roughness ?? (_mat?.glossiness ? (20.0 / _mat.glossiness) : 1.0), // TODO: how to map glossiness to roughness properly?
+            scale: { x: _map?.scale.texture_UScale ?? 1.0, y: _map?.scale.texture_VScale ?? 1.0 }
         };
+        if (_map) {
+            mat.offset = { x: _map.offset.texture_UOffset, y: _map.offset.texture_VOffset };
+            mat.rotation = _map.angle * Math.PI / 180.0;
+            mat.repeat = { u: _map.repeat.texture_URepeat, v: _map.repeat.texture_VRepeat };
+        }
         if (_mat?.diffuse) {
             mat.diffuse.x = _mat.diffuse[0];
             mat.diffuse.y = _mat.diffuse[1];
@@ -297,9 +364,29 @@ export class Scene implements IMF.IScene {
             mat.diffuse.z = _mat.specular[2];
             mat.roughness = 60 / _mat.glossiness;
         }
-        if (_mat?.maps?.diffuse) {
-            mat.maps = mat.maps || {};
-            mat.maps.diffuse = _mat.maps.diffuse.uri
+        if (_mat?.emissive) {
+            mat.emissive = { x: _mat.emissive[0], y: _mat.emissive[1], z: _mat.emissive[2] };
+        }
+        if (_mat?.specular && !_mat.metal) {
+            mat.specular = { x: _mat.specular[0], y: _mat.specular[1], z: _mat.specular[2] };
+        }
+        if (_mat?.reflectivity !== undefined) {
+            mat.reflectivity = _mat.reflectivity;
+        }
+        if (_mat?.transmission !== undefined) {
+            mat.transmission = _mat.transmission;
+        }
+        if (_mat?.ior !== undefined) {
+            mat.ior = _mat.ior;
+        }
+        if (_mat?.maps) {
+            mat.maps = {};
+            for (const key of ['diffuse', 'specular', 'normal', 'bump', 'alpha', 'roughness'] as const) {
+                const map = _mat.maps[key];
+                if (map) {
+                    mat.maps[key] = map.uri;
+                }
+            }
         }
         return mat;
     }
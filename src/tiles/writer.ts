@@ -0,0 +1,360 @@
+import * as path from 'path';
+import * as fse from 'fs-extra';
+import * as IMF from '../common/intermediate-format';
+import { Matrix4x4, createCoordinateSystemMatrix, getTransformMatrix, multiplyMatrices, transformPoint } from '../common/transforms';
+import { getMetersPerUnit } from '../common/units';
+import { IWriterOptions as IGltfWriterOptions, Writer as GltfWriter } from '../gltf/writer';
+
+export interface IWriterOptions {
+    maxFragmentsPerTile?: number; /** Max. number of fragments in a tile before it is subdivided (100 by default). */
+    maxDepth?: number; /** Max. depth of the tile hierarchy (8 by default). */
+    georeference?: boolean; /** Position the tileset on the globe using the `georeference` scene metadata (if available). */
+    center?: boolean; /** Move the model to origin (ignored when the tileset is georeferenced). */
+    log?: (msg: string) => void; /** Optional logging function. */
+    filter?: (dbid: number, fragid: number) => boolean;
+    content?: Omit<IGltfWriterOptions, 'groupBy'>; /** Additional options for the glTF writer generating the content of individual tiles (e.g., `draco` or `meshopt`). Each tile is always output as a single GLB. */
+}
+
+/**
+ * Bounding box in the coordinate system of the tileset (Z-up, meters).
+ */
+interface IBounds {
+    min: number[];
+    max: number[];
+}
+
+interface IFragmentBounds {
+    fragmentID: number;
+    bounds: IBounds;
+    size: number; // Length of the bounding box diagonal
+}
+
+interface ITileNode {
+    name: string;
+    bounds: IBounds;
+    fragmentIDs: number[]; // Fragments that are part of the tile content
+    children: ITileNode[];
+    geometricError: number;
+}
+
+/**
+ * Subset of the 3D Tiles tileset JSON generated by the writer.
+ */
+interface ITileset {
+    asset: { version: string; generator: string };
+    geometricError: number;
+    root: ITile;
+}
+
+interface ITile {
+    boundingVolume: { box: number[] };
+    geometricError: number;
+    refine?: 'ADD' | 'REPLACE';
+    transform?: Matrix4x4;
+    content?: { uri: string };
+    children?: ITile[];
+}
+
+// Transform from the Y-up coordinate system of glTF content to the Z-up coordinate system of 3D Tiles
+const YUpToZUpMatrix: Matrix4x4 = [
+    1, 0, 0, 0,
+    0, 0, 1, 0,
+    0, -1, 0, 0,
+    0, 0, 0, 1
+];
+
+const WGS84SemiMajorAxis = 6378137.0;
+const WGS84Eccentricity2 = 6.69437999014e-3;
+
+/**
+ * Computes a transform from a local east-north-up frame at given geographic location to Earth-centered, Earth-fixed coordinates.
+ * @param {number} longitude Longitude in degrees.
+ * @param {number} latitude Latitude in degrees.
+ * @param {number} height Height above the WGS84 ellipsoid in meters.
+ * @returns {Matrix4x4} Column-major transform matrix.
+ */
+function createEastNorthUpToFixedFrameMatrix(longitude: number, latitude: number, height: number): Matrix4x4 {
+    const lon = longitude * Math.PI / 180.0, lat = latitude * Math.PI / 180.0;
+    const sinLon = Math.sin(lon), cosLon = Math.cos(lon), sinLat = Math.sin(lat), cosLat = Math.cos(lat);
+    const n = WGS84SemiMajorAxis / Math.sqrt(1.0 - WGS84Eccentricity2 * sinLat * sinLat);
+    return [
+        -sinLon, cosLon, 0, 0,
+        -sinLat * cosLon, -sinLat * sinLon, cosLat, 0,
+        cosLat * cosLon, cosLat * sinLon, sinLat, 0,
+        (n + height) * cosLat * cosLon, (n + height) * cosLat * sinLon, (n * (1.0 - WGS84Eccentricity2) + height) * sinLat, 1
+    ];
+}
+
+function getDiagonal(bounds: IBounds): number {
+    return Math.hypot(bounds.max[0] - bounds.min[0], bounds.max[1] - bounds.min[1], bounds.max[2] - bounds.min[2]);
+}
+
+function mergeBounds(boxes: IBounds[]): IBounds {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (const box of boxes) {
+        for (let i = 0; i < 3; i++) {
+            min[i] = Math.min(min[i], box.min[i]);
+            max[i] = Math.max(max[i], box.max[i]);
+        }
+    }
+    return { min, max };
+}
+
+/**
+ * Utility class for serializing parsed 3D content to local file system as 3D Tiles (_tileset.json_ with GLB tile content).
+ *
+ * Fragments are spatially partitioned into an octree based on their bounding boxes, with large fragments
+ * kept in the upper levels of the tree, and with tiles using additive refinement.
+ */
+export class Writer {
+    protected options: Required<IWriterOptions>;
+
+    /**
+     * Initializes the writer.
+     * @param {IWriterOptions} [options={}] Additional writer options.
+     */
+    constructor(options: IWriterOptions = {}) {
+        this.options = {
+            maxFragmentsPerTile: options.maxFragmentsPerTile ?? 100,
+            maxDepth: options.maxDepth ?? 8,
+            georeference: !!options.georeference,
+            center: !!options.center,
+            log: (options && options.log) || function (msg: string) {},
+            filter: options && options.filter || ((dbid: number, fragid: number) => true),
+            content: options.content ?? {}
+        };
+    }
+
+    /**
+     * Outputs scene into 3D Tiles (as _tileset.json_, with content of individual tiles in the _tiles_ subfolder).
+     * @async
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {string} outputDir Path to output folder.
+     */
+    async write(imf: IMF.IScene, outputDir: string) {
+        fse.ensureDirSync(outputDir);
+        const georeference = this.options.georeference ? this.getGeoreference(imf) : null;
+        const center = this.options.center && !georeference;
+        const contentMatrix = multiplyMatrices(YUpToZUpMatrix, this.computeContentMatrix(imf, center));
+
+        this.options.log(`Partitioning scene...`);
+        const fragments = this.computeFragmentBounds(imf, contentMatrix);
+        if (fragments.length === 0) {
+            throw new Error('Could not find any fragments to output.');
+        }
+        const root = this.createTileNode('0', fragments, 0);
+
+        this.options.log(`Writing tile content...`);
+        await this.writeTileContent(root, imf, outputDir, center);
+
+        const tileset: ITileset = {
+            asset: {
+                version: '1.1',
+                generator: 'svf-utils'
+            },
+            geometricError: getDiagonal(root.bounds),
+            root: this.createTile(root)
+        };
+        tileset.root.refine = 'ADD';
+        if (georeference) {
+            // Move the reference point to the origin of the local east-north-up frame
+            const [x, y, z] = transformPoint(contentMatrix, georeference.refPoint[0], georeference.refPoint[1], georeference.refPoint[2]);
+            const [longitude, latitude, height] = georeference.position;
+            tileset.root.transform = multiplyMatrices(createEastNorthUpToFixedFrameMatrix(longitude, latitude, height), [
+                1, 0, 0, 0,
+                0, 1, 0, 0,
+                0, 0, 1, 0,
+                -x, -y, -z, 1
+            ]);
+        }
+        fse.writeFileSync(path.join(outputDir, 'tileset.json'), JSON.stringify(tileset, null, 4));
+        this.options.log(`Closing tileset output: done`);
+    }
+
+    /**
+     * Reads the georeference of the scene, i.e., the geographic location (longitude, latitude, and elevation)
+     * of a reference point specified in model coordinates.
+     */
+    protected getGeoreference(imf: IMF.IScene): { position: number[], refPoint: number[] } | null {
+        const georeference = imf.getMetadata()['georeference'];
+        if (!georeference || !georeference.positionLL84 || georeference.positionLL84.length < 2) {
+            this.options.log('Could not find georeference metadata, leaving the tileset without a transform...');
+            return null;
+        }
+        const [longitude, latitude, elevation] = georeference.positionLL84;
+        return {
+            position: [longitude, latitude, elevation ?? 0.0],
+            refPoint: georeference.refPointLMV ?? [0, 0, 0]
+        };
+    }
+
+    /**
+     * Computes the transform that the glTF writer applies to all fragments, converting the scene
+     * into a Y-up coordinate system in meters, and optionally moving it to origin.
+     */
+    protected computeContentMatrix(imf: IMF.IScene, center: boolean): Matrix4x4 {
+        let matrix = getTransformMatrix();
+        const metadata = imf.getMetadata();
+        if (metadata['world up vector'] && metadata['world front vector'] && metadata['distance unit']) {
+            const up = metadata['world up vector'].XYZ;
+            const front = metadata['world front vector'].XYZ;
+            const distanceUnit = metadata['distance unit'].value;
+            if (up && front && distanceUnit) {
+                matrix = createCoordinateSystemMatrix(up, front, getMetersPerUnit(distanceUnit)) ?? matrix;
+            }
+        }
+        if (metadata['world bounding box'] && center) {
+            const boundsMin = metadata['world bounding box'].minXYZ;
+            const boundsMax = metadata['world bounding box'].maxXYZ;
+            if (boundsMin && boundsMax) {
+                matrix = multiplyMatrices(matrix, [
+                    1, 0, 0, 0,
+                    0, 1, 0, 0,
+                    0, 0, 1, 0,
+                    -0.5 * (boundsMin[0] + boundsMax[0]), -0.5 * (boundsMin[1] + boundsMax[1]), -0.5 * (boundsMin[2] + boundsMax[2]), 1
+                ]);
+            }
+        }
+        return matrix;
+    }
+
+    /**
+     * Computes bounding boxes of all fragments that should be output, in the coordinate system of the tileset.
+     */
+    protected computeFragmentBounds(imf: IMF.IScene, contentMatrix: Matrix4x4): IFragmentBounds[] {
+        const { filter } = this.options;
+        const geometryBounds = new Map<IMF.GeometryID, IBounds | null>(); // Bounding boxes of geometries in their local space
+        const fragments: IFragmentBounds[] = [];
+        for (let i = 0, len = imf.getNodeCount(); i < len; i++) {
+            const fragment = imf.getNode(i);
+            // Currently we only support flat lists of objects, no hierarchies
+            if (fragment.kind !== IMF.NodeKind.Object) {
+                continue;
+            }
+            if (!filter(fragment.dbid, i)) {
+                continue;
+            }
+            if (!geometryBounds.has(fragment.geometry)) {
+                const geometry = imf.getGeometry(fragment.geometry);
+                const vertices = geometry.kind === IMF.GeometryKind.Empty ? undefined : geometry.getVertices();
+                let bounds: IBounds | null = null;
+                if (vertices && vertices.length > 0) {
+                    bounds = { min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity] };
+                    for (let j = 0; j < vertices.length; j += 3) {
+                        for (let k = 0; k < 3; k++) {
+                            bounds.min[k] = Math.min(bounds.min[k], vertices[j + k]);
+                            bounds.max[k] = Math.max(bounds.max[k], vertices[j + k]);
+                        }
+                    }
+                }
+                geometryBounds.set(fragment.geometry, bounds);
+            }
+            const local = geometryBounds.get(fragment.geometry);
+            if (!local) {
+                continue;
+            }
+            // Transform corners of the local bounding box (resulting in a conservative bounding box)
+            const m = multiplyMatrices(contentMatrix, getTransformMatrix(fragment.transform));
+            const corners: IBounds[] = [];
+            for (let j = 0; j < 8; j++) {
+                const corner = transformPoint(m,
+                    j & 1 ? local.max[0] : local.min[0],
+                    j & 2 ? local.max[1] : local.min[1],
+                    j & 4 ? local.max[2] : local.min[2]);
+                corners.push({ min: corner, max: corner });
+            }
+            const bounds = mergeBounds(corners);
+            fragments.push({ fragmentID: i, bounds, size: getDiagonal(bounds) });
+        }
+        return fragments;
+    }
+
+    /**
+     * Recursively partitions fragments into an octree. Fragments that are large relative to the tile
+     * (or all fragments of tiles that should not be subdivided any further) become part of the tile content,
+     * and the remaining fragments are distributed among child tiles based on the octant their center falls into.
+     * @param {string} name Tile name (path in the tree).
+     * @param {IFragmentBounds[]} fragments Fragments inside the tile.
+     * @param {number} depth Depth of the tile in the tree.
+     * @returns {ITileNode} Tile node.
+     */
+    protected createTileNode(name: string, fragments: IFragmentBounds[], depth: number): ITileNode {
+        const bounds = mergeBounds(fragments.map(fragment => fragment.bounds));
+        const node: ITileNode = { name, bounds, fragmentIDs: [], children: [], geometricError: 0 };
+        if (fragments.length <= this.options.maxFragmentsPerTile || depth >= this.options.maxDepth) {
+            node.fragmentIDs = fragments.map(fragment => fragment.fragmentID);
+            return node;
+        }
+
+        const threshold = 0.25 * getDiagonal(bounds);
+        const center = [0, 1, 2].map(i => 0.5 * (bounds.min[i] + bounds.max[i]));
+        const octants: IFragmentBounds[][] = [[], [], [], [], [], [], [], []];
+        for (const fragment of fragments) {
+            if (fragment.size > threshold) {
+                node.fragmentIDs.push(fragment.fragmentID);
+            } else {
+                let octant = 0;
+                for (let i = 0; i < 3; i++) {
+                    if (0.5 * (fragment.bounds.min[i] + fragment.bounds.max[i]) > center[i]) {
+                        octant |= 1 << i;
+                    }
+                }
+                octants[octant].push(fragment);
+                // Rendering the tile without its children omits this fragment, so the error is at least its size
+                node.geometricError = Math.max(node.geometricError, fragment.size);
+            }
+        }
+        for (let i = 0; i < 8; i++) {
+            if (octants[i].length > 0) {
+                const child = this.createTileNode(`${name}_${i}`, octants[i], depth + 1);
+                node.children.push(child);
+            }
+        }
+        return node;
+    }
+
+    /**
+     * Outputs content of given tile and all its descendants as GLB files.
+     */
+    protected async writeTileContent(node: ITileNode, imf: IMF.IScene, outputDir: string, center: boolean) {
+        if (node.fragmentIDs.length > 0) {
+            const fragmentIDs = new Set(node.fragmentIDs);
+            const writer = new GltfWriter({
+                ...this.options.content,
+                binary: true,
+                groupBy: null,
+                center,
+                filter: (dbid: number, fragid: number) => fragmentIDs.has(fragid)
+            });
+            await writer.write(imf, path.join(outputDir, 'tiles', node.name));
+        }
+        for (const child of node.children) {
+            await this.writeTileContent(child, imf, outputDir, center);
+        }
+    }
+
+    protected createTile(node: ITileNode): ITile {
+        const { min, max } = node.bounds;
+        // Avoid degenerate boxes (e.g., for planar geometry)
+        const halfSize = [0, 1, 2].map(i => Math.max(0.5 * (max[i] - min[i]), 1e-3));
+        const tile: ITile = {
+            boundingVolume: {
+                box: [
+                    0.5 * (min[0] + max[0]), 0.5 * (min[1] + max[1]), 0.5 * (min[2] + max[2]),
+                    halfSize[0], 0, 0,
+                    0, halfSize[1], 0,
+                    0, 0, halfSize[2]
+                ]
+            },
+            geometricError: node.geometricError
+        };
+        if (node.fragmentIDs.length > 0) {
+            tile.content = { uri: `tiles/${node.name}/output.glb` };
+        }
+        if (node.children.length > 0) {
+            tile.children = node.children.map(child => this.createTile(child));
+        }
+        return tile;
+    }
+}
@@ -0,0 +1,96 @@
+const UsdzAlignment = 64; // USDZ requires the data of all files to be aligned to 64 bytes
+const PaddingExtraFieldID = 0x1986; // ID of the extra field used for padding (same as the one used by the USD toolset)
+const LocalFileHeaderSignature = 0x04034b50;
+const CentralDirectoryHeaderSignature = 0x02014b50;
+const EndOfCentralDirectorySignature = 0x06054b50;
+const DosDate = (1 << 5) | 1; // 1980-01-01
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let i = 0; i < 256; i++) {
+            let c = i;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+            }
+            crcTable[i] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packages files into a USDZ archive, i.e., an uncompressed zip file with the data
+ * of each file aligned to 64 bytes (see https://openusd.org/release/spec_usdz.html).
+ * @param {{ name: string; data: Buffer }[]} files Files to include, starting with the root USD layer.
+ * @returns {Buffer} Content of the USDZ archive.
+ */
+export function createUsdzArchive(files: { name: string; data: Buffer }[]): Buffer {
+    const chunks: Buffer[] = [];
+    const centralDirectory: Buffer[] = [];
+    let offset = 0;
+    for (const file of files) {
+        const name = Buffer.from(file.name, 'utf8');
+        const crc = crc32(file.data);
+        // Pad the extra field so that the file data starts at an aligned offset
+        const headerSize = 30 + name.byteLength + 4;
+        const padding = (UsdzAlignment - (offset + headerSize) % UsdzAlignment) % UsdzAlignment;
+        const extra = Buffer.alloc(4 + padding);
+        extra.writeUInt16LE(PaddingExtraFieldID, 0);
+        extra.writeUInt16LE(padding, 2);
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(LocalFileHeaderSignature, 0);
+        header.writeUInt16LE(20, 4); // version needed to extract
+        header.writeUInt16LE(0, 6); // flags
+        header.writeUInt16LE(0, 8); // compression method (stored)
+        header.writeUInt16LE(0, 10); // modification time
+        header.writeUInt16LE(DosDate, 12); // modification date
+        header.writeUInt32LE(crc, 14);
+        header.writeUInt32LE(file.data.byteLength, 18); // compressed size
+        header.writeUInt32LE(file.data.byteLength, 22); // uncompressed size
+        header.writeUInt16LE(name.byteLength, 26);
+        header.writeUInt16LE(extra.byteLength, 28);
+        chunks.push(header, name, extra, file.data);
+
+        const entry = Buffer.alloc(46);
+        entry.writeUInt32LE(CentralDirectoryHeaderSignature, 0);
+        entry.writeUInt16LE(20, 4); // version made by
+        entry.writeUInt16LE(20, 6); // version needed to extract
+        entry.writeUInt16LE(0, 8); // flags
+        entry.writeUInt16LE(0, 10); // compression method (stored)
+        entry.writeUInt16LE(0, 12); // modification time
+        entry.writeUInt16LE(DosDate, 14); // modification date
+        entry.writeUInt32LE(crc, 16);
+        entry.writeUInt32LE(file.data.byteLength, 20); // compressed size
+        entry.writeUInt32LE(file.data.byteLength, 24); // uncompressed size
+        entry.writeUInt16LE(name.byteLength, 28);
+        entry.writeUInt16LE(0, 30); // extra field length
+        entry.writeUInt16LE(0, 32); // comment length
+        entry.writeUInt16LE(0, 34); // disk number
+        entry.writeUInt16LE(0, 36); // internal attributes
+        entry.writeUInt32LE(0, 38); // external attributes
+        entry.writeUInt32LE(offset, 42); // offset of the local header
+        centralDirectory.push(entry, name);
+
+        offset += header.byteLength + name.byteLength + extra.byteLength + file.data.byteLength;
+    }
+
+    const centralDirectorySize = centralDirectory.reduce((size, chunk) => size + chunk.byteLength, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(EndOfCentralDirectorySignature, 0);
+    end.writeUInt16LE(0, 4); // number of this disk
+    end.writeUInt16LE(0, 6); // disk where the central directory starts
+    end.writeUInt16LE(files.length, 8); // number of central directory records on this disk
+    end.writeUInt16LE(files.length, 10); // total number of central directory records
+    end.writeUInt32LE(centralDirectorySize, 12);
+    end.writeUInt32LE(offset, 16); // offset of the central directory
+    end.writeUInt16LE(0, 20); // comment length
+    return Buffer.concat([...chunks, ...centralDirectory, end]);
+}
@@ -0,0 +1,521 @@
+import * as path from 'path';
+import * as fse from 'fs-extra';
+import { ImagePlaceholder } from '../common/image-placeholders';
+import { decodeImage, encodePng } from '../common/images';
+import * as IMF from '../common/intermediate-format';
+import { createCoordinateSystemMatrix } from '../common/transforms';
+import { getMetersPerUnit } from '../common/units';
+import { createUsdzArchive } from './usdz';
+
+export interface IWriterOptions {
+    usdz?: boolean; /** Package the scene and all its textures into a single USDZ archive (_output.usdz_) instead of a USDA layer (_output.usda_) with external textures. */
+    ignoreLineGeometry?: boolean; /** Don't output line geometry */
+    ignorePointGeometry?: boolean; /** Don't output point geometry */
+    center?: boolean; /** Move the model to origin. */
+    log?: (msg: string) => void; /** Optional logging function. */
+    filter?: (dbid: number, fragid: number) => boolean;
+}
+
+const Indent = '    ';
+
+function formatFloat(value: number): string {
+    const rounded = parseFloat(value.toPrecision(7));
+    return rounded === 0 ? '0' : rounded.toString();
+}
+
+function formatTuple(values: ArrayLike<number>): string {
+    return `(${Array.from(values, formatFloat).join(', ')})`;
+}
+
+function formatTuples(values: ArrayLike<number>, size: number): string {
+    const tuples: string[] = [];
+    for (let i = 0; i < values.length; i += size) {
+        tuples.push(formatTuple(Array.prototype.slice.call(values, i, i + size)));
+    }
+    return `[${tuples.join(', ')}]`;
+}
+
+function formatMatrix(elements: number[]): string {
+    // USD matrices use row vectors, so rows of the USD matrix are the columns of our column-major matrices
+    return `( ${[0, 4, 8, 12].map(i => formatTuple(elements.slice(i, i + 4))).join(', ')} )`;
+}
+
+function computeBounds(vertices: Float32Array): { min: number[], max: number[] } {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < vertices.length; i += 3) {
+        for (let j = 0; j < 3; j++) {
+            min[j] = Math.min(min[j], vertices[i + j]);
+            max[j] = Math.max(max[j], vertices[i + j]);
+        }
+    }
+    return { min, max };
+}
+
+/**
+ * Utility class for serializing parsed 3D content to local file system as USD,
+ * either as a text layer (USDA) with external textures, or as a USDZ package.
+ */
+export class Writer {
+    protected options: Required<IWriterOptions>;
+
+    protected baseDir: string;
+    protected prototypes = new Map<IMF.GeometryID, string | null>(); // Names of geometry prototypes (null for geometries that are not output), indexed by IMF geometry IDs
+    protected prototypeLines: string[] = []; // Definitions of geometry prototypes
+    protected materials = new Map<IMF.MaterialID, string>(); // Names of materials, indexed by IMF material IDs
+    protected materialLines: string[] = []; // Definitions of materials
+    protected images = new Map<string, Buffer>(); // Images used by materials, indexed by their asset paths
+
+    /**
+     * Initializes the writer.
+     * @param {IWriterOptions} [options={}] Additional writer options.
+     */
+    constructor(options: IWriterOptions = {}) {
+        this.options = {
+            usdz: !!options.usdz,
+            ignoreLineGeometry: !!options.ignoreLineGeometry,
+            ignorePointGeometry: !!options.ignorePointGeometry,
+            center: !!options.center,
+            log: (options && options.log) || function (msg: string) {},
+            filter: options && options.filter || ((dbid: number, fragid: number) => true)
+        };
+        this.baseDir = '';
+    }
+
+    /**
+     * Outputs scene into USD (as _output.usda_ with external textures),
+     * or into a single USDZ package (as _output.usdz_) when the `usdz` option is enabled.
+     * @async
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @param {string} outputDir Path to output folder.
+     */
+    async write(imf: IMF.IScene, outputDir: string) {
+        this.reset(outputDir);
+        fse.ensureDirSync(this.baseDir);
+        const layer = Buffer.from(this.createLayer(imf), 'utf8');
+        if (this.options.usdz) {
+            const files = [{ name: 'output.usda', data: layer }];
+            for (const [assetPath, data] of this.images) {
+                files.push({ name: assetPath, data });
+            }
+            await fse.writeFile(path.join(this.baseDir, 'output.usdz'), createUsdzArchive(files));
+        } else {
+            await fse.writeFile(path.join(this.baseDir, 'output.usda'), layer);
+            for (const [assetPath, data] of this.images) {
+                const filePath = path.join(this.baseDir, assetPath);
+                await fse.ensureDir(path.dirname(filePath));
+                await fse.writeFile(filePath, data);
+            }
+        }
+        this.options.log(`Closing usd output: done`);
+    }
+
+    protected reset(outputDir: string) {
+        this.baseDir = outputDir;
+        this.prototypes.clear();
+        this.prototypeLines = [];
+        this.materials.clear();
+        this.materialLines = [];
+        this.images.clear();
+    }
+
+    protected createLayer(imf: IMF.IScene): string {
+        const metadata = imf.getMetadata();
+        let metersPerUnit = 1.0;
+        let rootMatrix: number[] | null = null; // Transform to the Y-up coordinate system
+        if (metadata['world up vector'] && metadata['world front vector']) {
+            const up = metadata['world up vector'].XYZ;
+            const front = metadata['world front vector'].XYZ;
+            if (up && front) {
+                rootMatrix = createCoordinateSystemMatrix(up, front);
+                if (!rootMatrix) {
+                    console.warn('Could not compute world matrix, leaving it as identity...');
+                }
+            }
+        }
+        if (metadata['distance unit'] && metadata['distance unit'].value) {
+            metersPerUnit = getMetersPerUnit(metadata['distance unit'].value);
+        }
+
+        const lines: string[] = [
+            '#usda 1.0',
+            '(',
+            `${Indent}defaultPrim = "Root"`,
+            `${Indent}doc = "Generated by svf-utils"`,
+            `${Indent}metersPerUnit = ${formatFloat(metersPerUnit)}`,
+            `${Indent}upAxis = "Y"`,
+            ')',
+            '',
+            'def Xform "Root"',
+            '{'
+        ];
+        if (rootMatrix) {
+            lines.push(...this.createTransformOps(rootMatrix, 1));
+        }
+        lines.push('', `${Indent}def Xform "Model"`, `${Indent}{`);
+        // Setup translation to origin when enabled
+        if (metadata['world bounding box'] && this.options.center) {
+            const boundsMin = metadata['world bounding box'].minXYZ;
+            const boundsMax = metadata['world bounding box'].maxXYZ;
+            if (boundsMin && boundsMax) {
+                lines.push(
+                    `${Indent}${Indent}double3 xformOp:translate = ${formatTuple([0, 1, 2].map(i => -0.5 * (boundsMin[i] + boundsMax[i])))}`,
+                    `${Indent}${Indent}uniform token[] xformOpOrder = ["xformOp:translate"]`
+                );
+            }
+        }
+
+        this.options.log(`Writing scene nodes...`);
+        const { filter } = this.options;
+        for (let i = 0, len = imf.getNodeCount(); i < len; i++) {
+            const fragment = imf.getNode(i);
+            // Currently we only support flat lists of objects, no hierarchies
+            if (fragment.kind !== IMF.NodeKind.Object) {
+                continue;
+            }
+            if (!filter(fragment.dbid, i)) {
+                continue;
+            }
+            lines.push(...this.createFragment(fragment, i, imf));
+        }
+        lines.push(`${Indent}}`);
+
+        this.options.log(`Writing materials...`);
+        lines.push('', `${Indent}def Scope "Materials"`, `${Indent}{`, ...this.materialLines, `${Indent}}`, '}');
+
+        // Geometries are defined as abstract prims (not rendered on their own) referenced by individual fragments
+        lines.push('', 'class "Prototypes"', '{', ...this.prototypeLines, '}', '');
+        this.options.log(`Writing scene: done`);
+        return lines.join('\n');
+    }
+
+    protected createFragment(fragment: IMF.IObjectNode, fragmentID: number, imf: IMF.IScene): string[] {
+        const prototype = this.createPrototype(fragment.geometry, imf);
+        if (!prototype) {
+            return [];
+        }
+        const material = this.createMaterial(fragment.material, imf);
+        const indent = Indent + Indent;
+        const lines = [
+            '',
+            `${indent}def ${prototype.type} "Fragment_${fragmentID}" (`,
+            `${indent}${Indent}prepend apiSchemas = ["MaterialBindingAPI"]`,
+            `${indent}${Indent}prepend references = </Prototypes/${prototype.name}>`,
+            `${indent})`,
+            `${indent}{`,
+            `${indent}${Indent}custom int svf:dbid = ${fragment.dbid}`,
+            `${indent}${Indent}rel material:binding = </Root/Materials/${material}>`
+        ];
+        if (fragment.transform) {
+            switch (fragment.transform.kind) {
+                case IMF.TransformKind.Matrix:
+                    lines.push(...this.createTransformOps(fragment.transform.elements, 3));
+                    break;
+                case IMF.TransformKind.Decomposed:
+                    const { translation, rotation, scale } = fragment.transform;
+                    const ops: string[] = [];
+                    if (translation) {
+                        lines.push(`${indent}${Indent}double3 xformOp:translate = ${formatTuple([translation.x, translation.y, translation.z])}`);
+                        ops.push('"xformOp:translate"');
+                    }
+                    if (rotation) {
+                        lines.push(`${indent}${Indent}quatf xformOp:orient = ${formatTuple([rotation.w, rotation.x, rotation.y, rotation.z])}`);
+                        ops.push('"xformOp:orient"');
+                    }
+                    if (scale) {
+                        lines.push(`${indent}${Indent}float3 xformOp:scale = ${formatTuple([scale.x, scale.y, scale.z])}`);
+                        ops.push('"xformOp:scale"');
+                    }
+                    if (ops.length > 0) {
+                        lines.push(`${indent}${Indent}uniform token[] xformOpOrder = [${ops.join(', ')}]`);
+                    }
+                    break;
+            }
+        }
+        lines.push(`${indent}}`);
+        return lines;
+    }
+
+    protected createTransformOps(matrix: number[], depth: number): string[] {
+        const indent = Indent.repeat(depth);
+        return [
+            `${indent}matrix4d xformOp:transform = ${formatMatrix(matrix)}`,
+            `${indent}uniform token[] xformOpOrder = ["xformOp:transform"]`
+        ];
+    }
+
+    /**
+     * Outputs geometry as an abstract prim that can be referenced by fragments.
+     * @param {IMF.GeometryID} geometryID IMF geometry ID.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @returns {{ name: string, type: string } | null} Name and type of the prototype prim, or null if the geometry is not output.
+     */
+    protected createPrototype(geometryID: IMF.GeometryID, imf: IMF.IScene): { name: string, type: string } | null {
+        const geometry = imf.getGeometry(geometryID);
+        let type: string;
+        switch (geometry.kind) {
+            case IMF.GeometryKind.Mesh:
+                type = 'Mesh';
+                break;
+            case IMF.GeometryKind.Lines:
+                type = 'BasisCurves';
+                break;
+            case IMF.GeometryKind.Points:
+                type = 'Points';
+                break;
+            default:
+                return null;
+        }
+        if (!this.prototypes.has(geometryID)) {
+            let attributes: string[] = [];
+            switch (geometry.kind) {
+                case IMF.GeometryKind.Mesh:
+                    attributes = this.createMeshAttributes(geometry);
+                    break;
+                case IMF.GeometryKind.Lines:
+                    attributes = this.options.ignoreLineGeometry ? [] : this.createLineAttributes(geometry);
+                    break;
+                case IMF.GeometryKind.Points:
+                    attributes = this.options.ignorePointGeometry ? [] : this.createPointAttributes(geometry);
+                    break;
+            }
+            if (attributes.length === 0) {
+                this.prototypes.set(geometryID, null);
+            } else {
+                const name = `Geometry_${geometryID}`;
+                this.prototypes.set(geometryID, name);
+                if (this.prototypeLines.length > 0) {
+                    this.prototypeLines.push('');
+                }
+                this.prototypeLines.push(
+                    `${Indent}def ${type} "${name}"`,
+                    `${Indent}{`,
+                    ...attributes.map(line => Indent + Indent + line),
+                    `${Indent}}`
+                );
+            }
+        }
+        const name = this.prototypes.get(geometryID);
+        return name ? { name, type } : null;
+    }
+
+    protected createMeshAttributes(geometry: IMF.IMeshGeometry): string[] {
+        const indices = geometry.getIndices();
+        const vertices = geometry.getVertices();
+        if (indices.length === 0 || vertices.length === 0) {
+            return [];
+        }
+        const { min, max } = computeBounds(vertices);
+        const attributes = [
+            `float3[] extent = [${formatTuple(min)}, ${formatTuple(max)}]`,
+            `int[] faceVertexCounts = [${new Array(indices.length / 3).fill(3).join(', ')}]`,
+            `int[] faceVertexIndices = [${indices.join(', ')}]`,
+            `point3f[] points = ${formatTuples(vertices, 3)}`
+        ];
+        const normals = geometry.getNormals();
+        if (normals) {
+            attributes.push(...this.createPrimvar('normal3f[] normals', formatTuples(normals, 3)));
+        }
+        const colors = geometry.getColors();
+        if (colors) {
+            const rgb = new Float32Array(colors.length / 4 * 3).map((_, i) => colors[Math.floor(i / 3) * 4 + i % 3]);
+            attributes.push(...this.createPrimvar('color3f[] primvars:displayColor', formatTuples(rgb, 3)));
+        }
+        if (geometry.getUvChannelCount() > 0) {
+            // IMF uses the glTF convention for texture coordinates (with V pointing down), while USD has V pointing up
+            const uvs = geometry.getUvs(0).map((value, i) => i % 2 === 1 ? 1.0 - value : value);
+            attributes.push(...this.createPrimvar('texCoord2f[] primvars:st', formatTuples(uvs, 2)));
+        }
+        attributes.push('uniform token subdivisionScheme = "none"');
+        return attributes;
+    }
+
+    protected createLineAttributes(geometry: IMF.ILineGeometry): string[] {
+        const indices = geometry.getIndices();
+        const vertices = geometry.getVertices();
+        if (indices.length === 0) {
+            return [];
+        }
+        // Basis curves do not support indexing, so each line segment is output as a separate curve
+        const points = new Float32Array(indices.length * 3);
+        for (let i = 0; i < indices.length; i++) {
+            points.set(vertices.subarray(indices[i] * 3, indices[i] * 3 + 3), i * 3);
+        }
+        const attributes = [
+            'uniform token type = "linear"',
+            `int[] curveVertexCounts = [${new Array(indices.length / 2).fill(2).join(', ')}]`,
+            `point3f[] points = ${formatTuples(points, 3)}`,
+            ...this.createPrimvar('float[] widths', `[${formatFloat(this.computeCurveWidth(points))}]`, 'constant')
+        ];
+        const colors = geometry.getColors();
+        if (colors) {
+            const rgb = new Float32Array(indices.length * 3);
+            for (let i = 0; i < indices.length; i++) {
+                for (let j = 0; j < 3; j++) {
+                    rgb[i * 3 + j] = colors[indices[i] * 3 + j] / 255.0;
+                }
+            }
+            attributes.push(...this.createPrimvar('color3f[] primvars:displayColor', formatTuples(rgb, 3)));
+        }
+        return attributes;
+    }
+
+    protected createPointAttributes(geometry: IMF.IPointGeometry): string[] {
+        const vertices = geometry.getVertices();
+        if (vertices.length === 0) {
+            return [];
+        }
+        const attributes = [
+            `point3f[] points = ${formatTuples(vertices, 3)}`,
+            ...this.createPrimvar('float[] widths', `[${formatFloat(this.computeCurveWidth(vertices))}]`, 'constant')
+        ];
+        const colors = geometry.getColors();
+        if (colors) {
+            attributes.push(...this.createPrimvar('color3f[] primvars:displayColor', formatTuples(colors, 3)));
+        }
+        return attributes;
+    }
+
+    protected createPrimvar(declaration: string, value: string, interpolation: string = 'vertex'): string[] {
+        return [
+            `${declaration} = ${value} (`,
+            `${Indent}interpolation = "${interpolation}"`,
+            ')'
+        ];
+    }
+
+    /**
+     * Estimates the width of lines and points (which must be specified in USD) based on the size of the geometry.
+     */
+    protected computeCurveWidth(points: Float32Array): number {
+        const { min, max } = computeBounds(points);
+        const diagonal = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+        return diagonal > 0 ? diagonal * 0.002 : 0.001;
+    }
+
+    /**
+     * Outputs material as a UsdPreviewSurface shading network.
+     * @param {IMF.MaterialID} materialID IMF material ID.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @returns {string} Name of the material prim.
+     */
+    protected createMaterial(materialID: IMF.MaterialID, imf: IMF.IScene): string {
+        const existing = this.materials.get(materialID);
+        if (existing) {
+            return existing;
+        }
+
+        const name = `Material_${materialID}`;
+        const materialPath = `/Root/Materials/${name}`;
+        const mat = imf.getMaterial(materialID) as IMF.Material | null;
+        const diffuse = mat ? [mat.diffuse.x, mat.diffuse.y, mat.diffuse.z] : [0.25, 0.25, 0.25];
+        const indent = Indent + Indent;
+        const surface = [
+            `uniform token info:id = "UsdPreviewSurface"`,
+            `float inputs:metallic = ${formatFloat(mat ? mat.metallic : 0.0)}`,
+            `float inputs:roughness = ${formatFloat(mat ? Math.min(mat.roughness, 1.0) : 0.5)}`,
+            `float inputs:opacity = ${formatFloat(mat && mat.opacity !== undefined ? mat.opacity : 1.0)}`,
+            `token outputs:surface`
+        ];
+        const shaders: string[][] = [];
+        const texture = mat?.maps?.diffuse ? this.createImage(mat.maps.diffuse, imf) : null;
+        if (texture) {
+            // Texture is tinted by the diffuse color, similarly to the base color factor in glTF
+            surface.splice(1, 0, `color3f inputs:diffuseColor.connect = <${materialPath}/DiffuseTexture.outputs:rgb>`);
+            const scale = [mat?.scale?.x ?? 1.0, mat?.scale?.y ?? 1.0];
+            shaders.push(this.createShader('DiffuseTexture', [
+                `uniform token info:id = "UsdUVTexture"`,
+                `asset inputs:file = @${texture}@`,
+                `float4 inputs:scale = ${formatTuple([...diffuse, 1.0])}`,
+                `float2 inputs:st.connect = <${materialPath}/TextureTransform.outputs:result>`,
+                `token inputs:wrapS = "repeat"`,
+                `token inputs:wrapT = "repeat"`,
+                `float3 outputs:rgb`
+            ]));
+            shaders.push(this.createShader('TextureTransform', [
+                `uniform token info:id = "UsdTransform2d"`,
+                `float2 inputs:in.connect = <${materialPath}/TexCoordReader.outputs:result>`,
+                `float2 inputs:scale = ${formatTuple(scale)}`,
+                `float2 outputs:result`
+            ]));
+            shaders.push(this.createShader('TexCoordReader', [
+                `uniform token info:id = "UsdPrimvarReader_float2"`,
+                `string inputs:varname = "st"`,
+                `float2 outputs:result`
+            ]));
+        } else {
+            surface.splice(1, 0, `color3f inputs:diffuseColor = ${formatTuple(diffuse)}`);
+        }
+
+        if (this.materialLines.length > 0) {
+            this.materialLines.push('');
+        }
+        this.materialLines.push(
+            `${indent}def Material "${name}"`,
+            `${indent}{`,
+            `${indent}${Indent}token outputs:surface.connect = <${materialPath}/PreviewSurface.outputs:surface>`,
+            ...this.createShader('PreviewSurface', surface),
+            ...shaders.flat(),
+            `${indent}}`
+        );
+        this.materials.set(materialID, name);
+        return name;
+    }
+
+    protected createShader(name: string, attributes: string[]): string[] {
+        const indent = Indent + Indent + Indent;
+        return [
+            '',
+            `${indent}def Shader "${name}"`,
+            `${indent}{`,
+            ...attributes.map(line => indent + Indent + line),
+            `${indent}}`
+        ];
+    }
+
+    /**
+     * Collects image data for given texture URI.
+     * @param {string} uri Texture URI.
+     * @param {IMF.IScene} imf Complete scene in intermediate, in-memory format.
+     * @returns {string} Asset path of the image (relative to the USD layer).
+     */
+    protected createImage(uri: string, imf: IMF.IScene): string {
+        const normalizedUri = uri.toLowerCase().split(/[\/\\]/).join(path.sep);
+        const extension = normalizedUri.substr(normalizedUri.lastIndexOf('.'));
+        // USDZ packages only allow PNG and JPEG images, so BMP and GIF images are transcoded to PNG
+        const transcode = extension === '.bmp' || extension === '.gif';
+        const outputUri = transcode ? normalizedUri.substr(0, normalizedUri.lastIndexOf('.')) + '.png' : normalizedUri;
+        const assetPath = outputUri.split(path.sep).join('/');
+        if (!this.images.has(assetPath)) {
+            // Default to a placeholder image based on the extension
+            let imageData = imf.getImage(normalizedUri) ?? ImagePlaceholder.FromExtension(extension);
+            if (!imageData) {
+                throw new Error(`Unsupported image format for ${normalizedUri}`);
+            }
+            if (transcode) {
+                imageData = this.transcodeToPng(normalizedUri, imageData);
+            }
+            this.images.set(assetPath, imageData);
+        }
+        return assetPath;
+    }
+
+    /**
+     * Converts image to PNG.
+     * @param {string} normalizedUri URI of the image (used for logging).
+     * @param {Buffer} imageData Image file content.
+     * @returns {Buffer} PNG image, or a placeholder PNG image if the input could not be decoded.
+     */
+    protected transcodeToPng(normalizedUri: string, imageData: Buffer): Buffer {
+        try {
+            const image = decodeImage(imageData);
+            if (image) {
+                return encodePng(image);
+            }
+            this.options.log(`Unsupported image format for ${normalizedUri}, using placeholder`);
+        } catch (err) {
+            this.options.log(`Could not decode image ${normalizedUri}, using placeholder: ${err}`);
+        }
+        return ImagePlaceholder.PNG;
+    }
+}
@@ -0,0 +1,44 @@
+// Unit tests of SVF2 geometry parsing.
+// Usage:
+//   npm run build
+//   node --test test/
+
+const test = require('node:test');
+const assert = require('node:assert');
+const { parseGeometry, GeometryType } = require('../lib/svf2/helpers/Geometry');
+
+// Builds a minimal OTG geometry with a single (delta-encoded) index buffer
+function createGeometryBuffer(geomType, indices, is32Bit) {
+    const header = Buffer.alloc(16);
+    header.write('OTG0', 0);
+    header.writeUInt16LE(geomType, 4);
+    header.writeUInt8(1, 6); // Buffer count
+    header.writeUInt8(1, 7); // Attribute count
+    header.writeUInt8(0, 8); // Attribute type (index)
+    header.writeUInt8(((is32Bit ? 10 : 3) << 4) | 1, 9); // Component type (uint or ushort) and item size
+    header.writeUInt8(0, 10); // Item offset
+    header.writeUInt8(is32Bit ? 4 : 2, 11); // Item stride
+    header.writeUInt8(0, 12); // Buffer ID
+    const data = Buffer.alloc(indices.length * (is32Bit ? 4 : 2));
+    indices.forEach((index, i) => is32Bit ? data.writeUInt32LE(index, i * 4) : data.writeUInt16LE(index, i * 2));
+    return Buffer.concat([header, data]);
+}
+
+test('decodes 16-bit triangle indices with a decreasing first index', () => {
+    // Triangles [5,6,7] and [1,2,3], where the delta of the second first index (-4) wraps to 65532
+    const geometry = parseGeometry(createGeometryBuffer(GeometryType.Triangles, [5, 1, 2, 65532, 1, 2], false));
+    assert.ok(geometry.indices instanceof Uint16Array);
+    assert.deepStrictEqual(Array.from(geometry.indices), [5, 6, 7, 1, 2, 3]);
+});
+
+test('decodes 32-bit triangle indices with a decreasing first index', () => {
+    const geometry = parseGeometry(createGeometryBuffer(GeometryType.Triangles, [70000, 1, 2, 0xfffffffc, 1, 2], true));
+    assert.ok(geometry.indices instanceof Uint32Array);
+    assert.deepStrictEqual(Array.from(geometry.indices), [70000, 70001, 70002, 69996, 69997, 69998]);
+});
+
+test('keeps small 32-bit indices as 16-bit', () => {
+    const geometry = parseGeometry(createGeometryBuffer(GeometryType.Lines, [5, 1, 0xfffffffc, 1], true));
+    assert.ok(geometry.indices instanceof Uint16Array);
+    assert.deepStrictEqual(Array.from(geometry.indices), [5, 6, 1, 2]);
+});